@@ -29,6 +29,7 @@ export default [
       '**/node_modules/**',
       '**/dist/**',
       '**/citester/**',
+      '**/cli/**',
       '**/coverage/**',
       '**/*.json',
       '.github/linters/**'
@@ -0,0 +1,7 @@
+#!/usr/bin/env node
+/**
+ * The entrypoint for the command line.
+ */
+import { runCli } from './cli'
+
+process.exitCode = await runCli(process.argv.slice(2))
@@ -0,0 +1,83 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { CachingRegistryClient, ManifestCache } from './cache'
+import { OCIImageIndexModel } from './models'
+import { RegistryClient } from './registry'
+import { Manifest } from './schemas'
+
+const digest = `sha256:${'a'.repeat(64)}`
+
+const manifest: Manifest = {
+  mediaType: 'application/vnd.oci.image.index.v1+json',
+  manifests: [
+    {
+      mediaType: 'application/vnd.oci.image.manifest.v1+json',
+      digest: `sha256:${'b'.repeat(64)}`
+    }
+  ]
+}
+
+describe('ManifestCache', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'manifest-cache-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should store and restore manifests', () => {
+    const cache = new ManifestCache(path.join(dir, 'nested'))
+    expect(cache.get(digest)).toBeUndefined()
+
+    cache.set(digest, manifest)
+    const restored = new ManifestCache(path.join(dir, 'nested')).get(digest)
+
+    expect(restored).toBeInstanceOf(OCIImageIndexModel)
+    expect(restored?.manifests).toEqual(manifest.manifests)
+    expect(cache.formatStats()).toBe(
+      'Manifest cache: 0 hits, 1 misses (0% hit rate).'
+    )
+  })
+
+  it('should treat invalid entries as missing', () => {
+    const cache = new ManifestCache(dir)
+    fs.writeFileSync(path.join(dir, `sha256-${'a'.repeat(64)}.json`), '{')
+
+    expect(cache.get(digest)).toBeUndefined()
+    expect(cache.misses).toBe(1)
+  })
+})
+
+describe('CachingRegistryClient', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'manifest-cache-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should only fetch manifests by digest once', async () => {
+    const getManifest = jest.fn(async () => manifest)
+    const client = { getManifest } as unknown as RegistryClient
+    const cache = new ManifestCache(dir)
+    const caching = new CachingRegistryClient(client, cache)
+
+    await caching.getManifest(digest)
+    await caching.getManifest(digest)
+    // Tags may move, so they are never cached.
+    await caching.getManifest('latest')
+    await caching.getManifest('latest')
+
+    expect(getManifest.mock.calls).toEqual([[digest], ['latest'], ['latest']])
+    expect(cache.formatStats()).toBe(
+      'Manifest cache: 1 hits, 1 misses (50% hit rate).'
+    )
+  })
+})
@@ -0,0 +1,151 @@
+import * as core from '@actions/core'
+import fs from 'fs'
+import path from 'path'
+import { parseManifest } from './parser'
+import { RegistryClient } from './registry'
+import { Manifest, ManifestReference } from './schemas'
+
+// Matches references that are digests rather than tags.
+const DIGEST_REGEX = /^[a-z0-9]+:[a-f0-9]+$/
+
+/**
+ * Caches manifests on disk, keyed by digest.
+ *
+ * Since manifests are content-addressed, a cached manifest never becomes stale. The directory can be persisted
+ * between runs, e.g. with `actions/cache`.
+ */
+export class ManifestCache {
+  // The directory holding one file per manifest.
+  dir: string
+
+  // Number of manifests found in the cache.
+  hits = 0
+
+  // Number of manifests not found in the cache.
+  misses = 0
+
+  constructor(dir: string) {
+    this.dir = dir
+  }
+
+  /**
+   * Returns the path of the file for a digest.
+   *
+   * @param digest - The digest of the manifest.
+   * @returns The path of the file.
+   */
+  private getPath(digest: string): string {
+    return path.join(this.dir, `${digest.replace(':', '-')}.json`)
+  }
+
+  /**
+   * Looks up a manifest.
+   *
+   * Unreadable entries are treated as missing.
+   *
+   * @param digest - The digest of the manifest.
+   * @returns The manifest, or undefined if it is not cached.
+   */
+  get(digest: string): Manifest | undefined {
+    const filePath = this.getPath(digest)
+    if (fs.existsSync(filePath)) {
+      try {
+        const manifest = parseManifest(fs.readFileSync(filePath, 'utf-8'))
+        this.hits++
+        return manifest
+      } catch (error) {
+        core.debug(`Ignoring invalid cache entry ${filePath}: ${error}`)
+      }
+    }
+
+    this.misses++
+    return undefined
+  }
+
+  /**
+   * Stores a manifest.
+   *
+   * @param digest - The digest of the manifest.
+   * @param manifest - The manifest.
+   */
+  set(digest: string, manifest: Manifest): void {
+    const filePath = this.getPath(digest)
+    fs.mkdirSync(this.dir, { recursive: true })
+    // Write to a temporary file first, so that an interrupted run does not leave a truncated entry.
+    fs.writeFileSync(`${filePath}.tmp`, JSON.stringify(manifest), 'utf-8')
+    fs.renameSync(`${filePath}.tmp`, filePath)
+  }
+
+  /**
+   * Formats the hit and miss counts for display.
+   *
+   * @returns A human-readable summary of the cache usage.
+   */
+  formatStats(): string {
+    const total = this.hits + this.misses
+    const rate = total > 0 ? Math.round((this.hits / total) * 100) : 0
+    return `Manifest cache: ${this.hits} hits, ${this.misses} misses (${rate}% hit rate).`
+  }
+}
+
+/**
+ * A registry client that serves manifests requested by digest from a cache.
+ *
+ * Manifests requested by tag are always fetched, since tags may move.
+ */
+export class CachingRegistryClient implements RegistryClient {
+  // The client to delegate to.
+  client: RegistryClient
+
+  // The manifest cache.
+  cache: ManifestCache
+
+  constructor(client: RegistryClient, cache: ManifestCache) {
+    this.client = client
+    this.cache = cache
+  }
+
+  async login(): Promise<void> {
+    await this.client.login()
+  }
+
+  async listTags(): Promise<string[]> {
+    return this.client.listTags()
+  }
+
+  async resolveDigest(reference: string): Promise<string> {
+    return this.client.resolveDigest(reference)
+  }
+
+  async getManifest(reference: string): Promise<Manifest> {
+    if (!DIGEST_REGEX.test(reference)) {
+      return this.client.getManifest(reference)
+    }
+
+    const cached = this.cache.get(reference)
+    if (cached != null) return cached
+
+    const manifest = await this.client.getManifest(reference)
+    this.cache.set(reference, manifest)
+    return manifest
+  }
+
+  async getBlob(digest: string): Promise<unknown> {
+    return this.client.getBlob(digest)
+  }
+
+  async putManifest(
+    tag: string,
+    manifest: Manifest
+  ): Promise<string | undefined> {
+    return this.client.putManifest(tag, manifest)
+  }
+
+  async deleteManifest(reference: string): Promise<void> {
+    await this.client.deleteManifest(reference)
+  }
+
+  async getReferrers(digest: string): Promise<ManifestReference[]> {
+    return this.client.getReferrers(digest)
+  }
+}
@@ -6,6 +6,14 @@ import stdio from 'stdio'
 import fs from 'fs'
 import * as core from '@actions/core'
 import { Config } from './config'
+import {
+  diffExpected,
+  formatExpected,
+  getExitCode,
+  parseExpectedEntries,
+  renderDiff
+} from './expected'
+import { createFixture, formatFixture } from './fixture'
 import { GithubPackageRepo } from './github-package'
 import { SpawnSyncOptionsWithStringEncoding, spawnSync } from 'child_process'
 
@@ -218,10 +226,10 @@ export async function run(): Promise<void> {
     delay = parseInt(args.delay)
   }
 
-  // let tag
+  let expectedTag: string | undefined
   if (args.tag) {
     assertString(args.tag)
-    // tag = args.tag
+    expectedTag = args.tag
   }
 
   // auto populate
@@ -246,8 +254,6 @@ export async function run(): Promise<void> {
   const githubPackageRepo = new GithubPackageRepo(config)
   await githubPackageRepo.init()
 
-  const packagesById = new Map<string, any>()
-
   // Digest of busybox image to be used as dummy image. Corresponds to busybox:1.31.
   const dummyDigest =
     'sha256:6d9a2e77c3b19944a28c3922f5715ede91c1ae869d91edf5f6adf88ed54e97cf' // 1.36.1-musl linux/amd64
@@ -330,144 +336,68 @@ export async function run(): Promise<void> {
     // test the repo after the test
     await githubPackageRepo.loadVersions()
 
-    let error = false
-
-    // Load expected digests.
-    if (!fs.existsSync(`${args.directory}/expected-digests`)) {
-      core.setFailed(`file: ${args.directory}/expected-digests doesn't exist`)
-      error = true
-    } else {
-      const digests_expected = new Set<string>()
-      const fileContents = fs.readFileSync(
-        `${args.directory}/expected-digests`,
-        'utf-8'
-      )
-
-      for (const line of fileContents.split('\n')) {
-        // Remove comment, maybe, and trim whitespace.
-        const line0 = (
-          line.includes('//') ? line.substring(0, line.indexOf('//')) : line
-        ).trim()
-
-        // Ignore empty lines.
-        if (line0.length <= 0) continue
-
-        digests_expected.add(line0)
-      }
-
-      const digests = new Set<string>()
-      for (const digest of githubPackageRepo.getDigests()) {
-        digests.add(digest)
-      }
-
-      for (const digest of digests_expected) {
-        if (digests.has(digest)) {
-          // Found expected digest.
-
-          // Delete it from the set already since it is irrelevant when checking for unexpected digests in the next loop below.
-          digests.delete(digest)
-        } else {
-          // Could not find expected digest.
-          error = true
-          core.setFailed(`Expected digest not found after test: ${digest}`)
-        }
-      }
-
-      for (const digest of digests) {
-        // Found digest that was not expected.
-        error = true
-        core.setFailed(`Found unexpected digest after test: ${digest}`)
+    // Load expected digests and tags.
+    const expectedDigestsPath = `${args.directory}/expected-digests`
+    const expectedTagsPath = `${args.directory}/expected-tags`
+    for (const filePath of [expectedDigestsPath, expectedTagsPath]) {
+      if (!fs.existsSync(filePath)) {
+        core.setFailed(`file: ${filePath} doesn't exist`)
+        return
       }
     }
 
-    // Load expected tags.
-
-    if (!fs.existsSync(`${args.directory}/expected-tags`)) {
-      core.setFailed(`file: ${args.directory}/expected-tags doesn't exist`)
-      error = true
-    } else {
-      const expectedTags = new Set<string>()
-      const fileContents = fs.readFileSync(
-        `${args.directory}/expected-tags`,
-        'utf-8'
-      )
-      for (const line of fileContents.split('\n')) {
-        // Remove comment, maybe, and trim whitespace.
-        const line0 = (
-          line.includes('//') ? line.substring(0, line.indexOf('//')) : line
-        ).trim()
-
-        // Ignore empty lines.
-        if (line0.length <= 0) continue
-
-        expectedTags.add(line)
-      }
-
-      const tags = new Set<string>()
-      for (const tag of githubPackageRepo.getTags(true)) {
-        tags.add(tag)
-      }
-
-      for (const tag of expectedTags) {
-        if (tags.has(tag)) {
-          // Found expected tag.
+    const diff = diffExpected(
+      githubPackageRepo,
+      parseExpectedEntries(fs.readFileSync(expectedDigestsPath, 'utf-8')),
+      parseExpectedEntries(fs.readFileSync(expectedTagsPath, 'utf-8'))
+    )
 
-          // Delete it from the set already since it is irrelevant when checking for unexpected digests in the next loop below.
-          tags.delete(tag)
-        } else {
-          // Could not find expected tag.
-          error = true
-          core.setFailed(`Expected tag not found after test: ${tag}`)
-        }
-      }
+    // Write the diff for further inspection, e.g. as a workflow artifact.
+    const diffFilePath = `${args.directory}/validation-diff.json`
+    fs.writeFileSync(diffFilePath, JSON.stringify(diff, null, 2), 'utf-8')
 
-      for (const tag of tags) {
-        // Found tag that was not expected.
-        error = true
-        core.setFailed(`Found unexpected tag after test: ${tag}`)
+    const exitCode = getExitCode(diff)
+    if (exitCode === 0) {
+      console.info('test passed!')
+    } else {
+      for (const line of renderDiff(githubPackageRepo, diff)) {
+        core.info(line)
       }
+      core.setFailed(
+        `Validation failed: ${diff.missingDigests.length} missing digests, ${diff.missingTags.length} missing tags, ` +
+          `${diff.unexpectedDigests.length} unexpected digests, ${diff.unexpectedTags.length} unexpected tags. ` +
+          `See ${diffFilePath}.`
+      )
+      // Distinguish missing from unexpected artifacts.
+      process.exitCode = exitCode
     }
-
-    if (!error) console.info('test passed!')
   } else if (args.mode === 'save-expected') {
-    // save the expected tag dynamically
+    // Save the contents of the package after a run as the expected files of a new scenario. With a tag, the closure of
+    // the tag is appended to the files instead, e.g. to add an image built by the workflow to the expected contents.
     await githubPackageRepo.loadVersions()
 
-    const tags = new Set<string>()
-    for (const ghPackage of packagesById.values()) {
-      for (const repoTag of ghPackage.metadata.container.tags) {
-        tags.add(repoTag)
-      }
-    }
+    const expected = formatExpected(githubPackageRepo, expectedTag)
+    const write = expectedTag ? fs.appendFileSync : fs.writeFileSync
+    fs.mkdirSync(args.directory, { recursive: true })
+    write(`${args.directory}/expected-digests`, expected.digests, 'utf-8')
+    write(`${args.directory}/expected-tags`, expected.tags, 'utf-8')
+    core.info(
+      `Saved the expected digests and tags${expectedTag ? ` of tag ${expectedTag}` : ''} to ${args.directory}.`
+    )
+  } else if (args.mode === 'snapshot') {
+    // Snapshot the current state of the package into a fixture, e.g. to reproduce a bug report offline.
+    await githubPackageRepo.loadVersions()
 
-    // if (tag) {
-    // find the digests in use for the supplied tag
-    // const digest = await registry.getTagDigest(tag)
-    // fs.appendFileSync(`${args.directory}/expected-digests`, `${digest}\n`)
-
-    // is there a refferrer digest
-    //   const referrerTag = digest.replace('sha256:', 'sha256-')
-    //   if (tags.has(tag)) {
-    //     fs.appendFileSync(`${args.directory}/expected-tags`, `${referrerTag}\n`)
-    //     const referrerDigest = await registry.getTagDigest(referrerTag)
-    //     fs.appendFileSync(
-    //       `${args.directory}/expected-digests`,
-    //       `${referrerDigest}\n`
-    //     )
-    //     const referrerManifest =
-    //       await registry.getManifestByDigest(referrerDigest)
-    //     if (referrerManifest.manifests) {
-    //       for (const manifest of referrerManifest.manifests) {
-    //         fs.appendFileSync(
-    //           `${args.directory}/expected-digests`,
-    //           `${manifest.digest}\n`
-    //         )
-    //       }
-    //     }
-    //   }
-    // } else {
-    //   core.setFailed('no tag supplied')
-    // }
+    const fixture = createFixture(
+      `${config.owner}/${config.package}`,
+      githubPackageRepo
+    )
+    const fixtureFilePath = `${args.directory}/fixture.yml`
+    fs.mkdirSync(args.directory, { recursive: true })
+    fs.writeFileSync(fixtureFilePath, formatFixture(fixture), 'utf-8')
+    core.info(
+      `Wrote ${fixture.versions.length} versions to fixture ${fixtureFilePath}.`
+    )
   }
 }
 
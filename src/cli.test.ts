@@ -0,0 +1,131 @@
+import fs from 'fs'
+import path from 'path'
+import YAML from 'yaml'
+import {
+  formatPackagePlan,
+  getEnvName,
+  parseCommandLine,
+  SWITCH_OPTIONS,
+  VALUE_OPTIONS
+} from './cli'
+
+// The configuration module loads Octokit, which Jest cannot load, and is not needed to parse the command line.
+jest.mock('./config', () => ({}))
+
+describe('parseCommandLine', () => {
+  it('should read the options as inputs', () => {
+    const { command, inputs } = parseCommandLine([
+      'plan',
+      '--owner',
+      'owner',
+      '--package',
+      'a',
+      '--package',
+      'b',
+      '--keep-n-tagged=3',
+      '--explain'
+    ])
+
+    expect(command).toBe('plan')
+    expect(inputs.getInput('owner')).toBe('owner')
+    expect(inputs.getInput('package')).toBe('a\nb')
+    expect(inputs.getInput('keep-n-tagged')).toBe('3')
+    expect(inputs.getBooleanInput('explain')).toBe(true)
+    expect(inputs.getInput('include-tags')).toBe('')
+  })
+
+  it('should fall back to environment variables', () => {
+    const { inputs } = parseCommandLine(['apply', '--owner', 'owner'], {
+      GHCR_CLEANUP_OWNER: 'other',
+      GHCR_CLEANUP_KEEP_N_UNTAGGED: ' 2 ',
+      GHCR_CLEANUP_DRY_RUN: 'false',
+      GITHUB_TOKEN: 'token'
+    })
+
+    expect(inputs.getInput('owner')).toBe('owner')
+    expect(inputs.getInput('keep-n-untagged')).toBe('2')
+    expect(inputs.getBooleanInput('dry-run')).toBe(false)
+    expect(inputs.getInput('token', { required: true })).toBe('token')
+  })
+
+  it('should reject invalid command lines', () => {
+    expect(() => parseCommandLine([], {})).toThrow(
+      'Expected exactly one command'
+    )
+    expect(() => parseCommandLine(['delete'], {})).toThrow(
+      'Unknown command delete'
+    )
+    expect(() => parseCommandLine(['plan', '--keep-all'], {})).toThrow()
+
+    const { inputs } = parseCommandLine(['plan'], { GHCR_CLEANUP_EXPLAIN: 'x' })
+    expect(() => inputs.getInput('token', { required: true })).toThrow(
+      'Input required and not supplied: token'
+    )
+    expect(() => inputs.getBooleanInput('explain')).toThrow(
+      'explain must be true or false'
+    )
+  })
+
+  it('should support all inputs of the action', () => {
+    const action = YAML.parse(
+      fs.readFileSync(path.join(__dirname, '..', 'action.yml'), 'utf-8')
+    )
+
+    // The job summary is only written in a workflow.
+    expect([...VALUE_OPTIONS, ...SWITCH_OPTIONS, 'summary'].sort()).toEqual(
+      Object.keys(action.inputs).sort()
+    )
+    expect(getEnvName('keep-n-tagged')).toBe('GHCR_CLEANUP_KEEP_N_TAGGED')
+  })
+})
+
+describe('formatPackagePlan', () => {
+  it('should indent each version below its parent', () => {
+    const version = {
+      id: 1,
+      tags: [],
+      type: 'single-arch image' as const,
+      decision: null
+    }
+
+    expect(
+      formatPackagePlan({
+        owner: 'owner',
+        package: 'repo',
+        tags: { delete: ['old'], keep: ['latest'] },
+        versions: [
+          {
+            ...version,
+            digest: 'sha256:a',
+            tags: ['old'],
+            type: 'multi-arch image',
+            parent: null,
+            action: 'delete',
+            reason: 'deleted by include-tags'
+          },
+          {
+            ...version,
+            digest: 'sha256:b',
+            parent: 'sha256:a',
+            action: 'delete',
+            reason: 'deleted by include-tags'
+          },
+          {
+            ...version,
+            digest: 'sha256:c',
+            tags: ['latest'],
+            parent: null,
+            action: 'keep',
+            reason: 'kept by default'
+          }
+        ]
+      })
+    ).toEqual([
+      'owner/repo: delete 2 of 3 versions and 1 of 2 tags',
+      '- delete sha256:a multi-arch image (old): deleted by include-tags',
+      '  - delete sha256:b single-arch image: deleted by include-tags',
+      '- keep sha256:c single-arch image (latest): kept by default',
+      '- delete tag old'
+    ])
+  })
+})
@@ -0,0 +1,301 @@
+import type { InputOptions } from '@actions/core'
+import { parseArgs } from 'util'
+import { Config, getConfig, InputReader } from './config'
+import {
+  cleanup,
+  CleanupAction,
+  CleanupResult,
+  createPlan,
+  formatResult
+} from './main'
+import { PackageVersionExt } from './models'
+import { PackagePlan, writePlanFile } from './plan'
+import { renderTree } from './tree'
+
+// The commands of the command line.
+const COMMANDS = ['plan', 'apply', 'tree'] as const
+
+export type Command = (typeof COMMANDS)[number]
+
+/**
+ * The action inputs that take a value, available as options of the same name.
+ */
+export const VALUE_OPTIONS = [
+  'token',
+  'owner',
+  'repository',
+  'package',
+  'packages',
+  'registry-type',
+  'registry-url',
+  'api-url',
+  'registry-username',
+  'registry-password',
+  'include-tags',
+  'exclude-tags',
+  'closed-pr-tags',
+  'deleted-branch-tags',
+  'keep-n-tagged',
+  'keep-n-per-group',
+  'keep-n-untagged',
+  'semver-keep-n-patch',
+  'semver-keep-n-minor',
+  'semver-keep-n-prerelease',
+  'older-than',
+  'keep-younger-than',
+  'protect-deployed-within',
+  'artifact-types',
+  'concurrency',
+  'manifest-cache',
+  'journal-file',
+  'policy-file',
+  'plan-file',
+  'log-level'
+]
+
+/**
+ * The boolean action inputs, available as switches of the same name.
+ */
+export const SWITCH_OPTIONS = ['dry-run', 'explain', 'fail-fast']
+
+export const USAGE = `Usage: ghcr-cleanup <command> [options]
+
+Commands:
+  plan    Show which tags and versions would be deleted, without deleting them
+  apply   Delete the tags and versions
+  tree    Show the versions of the packages
+
+Options are the inputs of the action, e.g. --owner, --repository, --package and
+--keep-n-tagged, and switches for the boolean inputs, e.g. --explain. Each
+option may also be given by an environment variable, e.g. GHCR_CLEANUP_OWNER.
+The token defaults to GITHUB_TOKEN or GH_TOKEN.`
+
+/**
+ * A parsed command line.
+ */
+export interface CommandLine {
+  command: Command
+  // Reads the options as the inputs of the configuration.
+  inputs: InputReader
+}
+
+/**
+ * Determines the environment variable for an option, e.g. `GHCR_CLEANUP_KEEP_N_TAGGED` for `keep-n-tagged`.
+ *
+ * @param name - The name of the option.
+ * @returns The name of the environment variable.
+ */
+export function getEnvName(name: string): string {
+  return `GHCR_CLEANUP_${name.toUpperCase().replace(/-/g, '_')}`
+}
+
+/**
+ * Parses the command line.
+ *
+ * Options take precedence over environment variables. Repeated `--package` options are combined.
+ *
+ * @param args - The arguments, without the node executable and the script.
+ * @param env - The environment variables.
+ * @returns The command and its options.
+ * @throws An error if the command or an option is unknown.
+ */
+export function parseCommandLine(
+  args: string[],
+  env: NodeJS.ProcessEnv = process.env
+): CommandLine {
+  const { values, positionals } = parseArgs({
+    args,
+    options: Object.fromEntries([
+      ...VALUE_OPTIONS.map(name => [
+        name,
+        { type: 'string' as const, multiple: name === 'package' }
+      ]),
+      ...SWITCH_OPTIONS.map(name => [name, { type: 'boolean' as const }])
+    ]),
+    allowPositionals: true
+  })
+
+  if (positionals.length !== 1) {
+    throw new Error('Expected exactly one command')
+  }
+  const command = positionals[0] as Command
+  if (!COMMANDS.includes(command)) {
+    throw new Error(`Unknown command ${command}`)
+  }
+
+  const getValue = (name: string): string => {
+    const value = (values as Record<string, string | string[] | boolean>)[name]
+    if (Array.isArray(value)) return value.join('\n')
+    if (value != null) return `${value}`
+
+    const fallback =
+      name === 'token' ? (env.GITHUB_TOKEN ?? env.GH_TOKEN) : undefined
+    return (env[getEnvName(name)] ?? fallback ?? '').trim()
+  }
+
+  return {
+    command,
+    inputs: {
+      getInput: (name: string, options?: InputOptions): string => {
+        const value = getValue(name)
+        if (options?.required && !value) {
+          throw new Error(`Input required and not supplied: ${name}`)
+        }
+        return value
+      },
+      getBooleanInput: (name: string): boolean => {
+        const value = getValue(name)
+        if (['true', 'True', 'TRUE'].includes(value)) return true
+        if (['false', 'False', 'FALSE'].includes(value)) return false
+        throw new TypeError(`${name} must be true or false`)
+      }
+    }
+  }
+}
+
+/**
+ * Formats the deletion plan of a package, each version indented below its parent.
+ *
+ * @param plan - The deletion plan of the package.
+ * @returns The lines of the plan.
+ */
+export function formatPackagePlan(plan: PackagePlan): string[] {
+  const deleted = plan.versions.filter(v => v.action === 'delete')
+  const lines = [
+    `${plan.owner}/${plan.package}: delete ${deleted.length} of ${plan.versions.length} versions and ${plan.tags.delete.length} of ${plan.tags.delete.length + plan.tags.keep.length} tags`
+  ]
+
+  // Versions are listed in tree order, so the parent of a version comes first.
+  const depths = new Map<string, number>()
+  for (const v of plan.versions) {
+    const depth = v.parent != null ? (depths.get(v.parent) ?? 0) + 1 : 0
+    depths.set(v.digest, depth)
+    const tags = v.tags.length > 0 ? ` (${v.tags.join(', ')})` : ''
+    lines.push(
+      `${'  '.repeat(depth)}- ${v.action} ${v.digest} ${v.type}${tags}: ${v.reason}`
+    )
+  }
+  for (const tag of plan.tags.delete) {
+    lines.push(`- delete tag ${tag}`)
+  }
+  return lines
+}
+
+/**
+ * Prints a line of the output of a command.
+ */
+type Printer = (line: string) => void
+
+/**
+ * Prints the versions of each package as trees.
+ *
+ * @param config - The configuration.
+ * @param print - Prints a line.
+ */
+async function printTrees(config: Config, print: Printer): Promise<void> {
+  for (const name of await config.resolvePackages()) {
+    const action = new CleanupAction(config.forPackage(name))
+    await action.init()
+    await action.repo.loadVersions()
+
+    print(`${config.owner}/${name}`)
+    for (const r of action.repo.getRoots()) {
+      renderTree<PackageVersionExt>(
+        r,
+        v => v.children,
+        (v, prefix) => {
+          print(`${v.parent == null ? '- ' : '  '}${prefix} ${v.name} ${v}`)
+        }
+      )
+    }
+  }
+}
+
+/**
+ * Prints the results of a cleanup.
+ *
+ * @param config - The configuration.
+ * @param results - The results for each package.
+ * @param showPlan - Whether to print the deletion plan instead of the deleted tags and versions.
+ * @param print - Prints a line.
+ */
+function printResults(
+  config: Config,
+  results: CleanupResult[],
+  showPlan: boolean,
+  print: Printer
+): void {
+  for (const r of results) {
+    if (showPlan && r.plan != null) {
+      for (const line of formatPackagePlan(r.plan)) print(line)
+      if (r.error != null) print(formatResult(config.owner, r))
+    } else {
+      print(formatResult(config.owner, r))
+      for (const tag of r.tags) print(`- tag ${tag}`)
+      for (const v of r.versions) print(`- version ${v.name} ${v}`)
+    }
+  }
+}
+
+/**
+ * Runs a command line.
+ *
+ * Only the output of the command is written to stdout. The log messages of the cleanup, e.g. from `core.info`, go to
+ * stderr instead, since the actions toolkit writes them and its workflow commands to stdout.
+ *
+ * @param args - The arguments, without the node executable and the script.
+ * @param loadConfig - Creates the configuration from the options.
+ * @returns The exit code: 0 on success, 1 if a cleanup failed and 2 for an invalid command line.
+ */
+export async function runCli(
+  args: string[],
+  loadConfig: (inputs: InputReader) => Config = getConfig
+): Promise<number> {
+  if (args.includes('--help') || args.includes('-h')) {
+    console.log(USAGE)
+    return 0
+  }
+
+  let commandLine: CommandLine
+  try {
+    commandLine = parseCommandLine(args)
+  } catch (error) {
+    console.error(`${error instanceof Error ? error.message : error}\n`)
+    console.error(USAGE)
+    return 2
+  }
+
+  // Print the output to stdout, and send everything else written there to stderr until done.
+  const write = process.stdout.write.bind(process.stdout)
+  const print: Printer = line => {
+    write(`${line}\n`)
+  }
+  process.stdout.write = process.stderr.write.bind(process.stderr)
+
+  try {
+    const config = loadConfig(commandLine.inputs)
+
+    if (commandLine.command === 'tree') {
+      await printTrees(config, print)
+      return 0
+    }
+
+    // Planning never deletes anything.
+    if (commandLine.command === 'plan') {
+      config.dryRun = true
+    }
+
+    const results = await cleanup(config)
+    if (config.planFile) {
+      writePlanFile(config.planFile, createPlan(config, results))
+    }
+    printResults(config, results, commandLine.command === 'plan', print)
+
+    return results.some(r => r.error != null) ? 1 : 0
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error)
+    return 1
+  } finally {
+    process.stdout.write = write
+  }
+}
@@ -0,0 +1,163 @@
+import { Config, getConfig, InputReader } from './config'
+
+// Octokit is published as ES modules only, which Jest cannot load. The requests are mocked per test instead.
+jest.mock('@octokit/core', () => ({
+  Octokit: {
+    plugin: () =>
+      class {
+        constructor(readonly options: unknown) {}
+      }
+  }
+}))
+jest.mock('@octokit/plugin-rest-endpoint-methods', () => ({}))
+jest.mock('@octokit/plugin-paginate-rest', () => ({}))
+jest.mock('@octokit/plugin-throttling', () => ({}))
+jest.mock('@octokit/plugin-retry', () => ({}))
+jest.mock('@octokit/plugin-request-log', () => ({}))
+
+/**
+ * Reads the inputs from the given values, like the inputs of the action.
+ */
+function inputsFrom(values: Record<string, string>): InputReader {
+  const all: Record<string, string> = {
+    token: 'token',
+    owner: 'owner',
+    repository: 'repo',
+    ...values
+  }
+  return {
+    getInput: name => all[name] ?? '',
+    getBooleanInput: name => all[name] === 'true'
+  }
+}
+
+describe('getConfig', () => {
+  const env = process.env
+
+  beforeEach(() => {
+    process.env = { ...env }
+    delete process.env.GITHUB_REPOSITORY
+  })
+
+  afterAll(() => {
+    process.env = env
+  })
+
+  it('should read the owner, repository and packages', () => {
+    const config = getConfig(inputsFrom({ packages: 'a, b\nc' }))
+
+    expect(config.owner).toBe('owner')
+    expect(config.repository).toBe('repo')
+    expect(config.packages).toEqual(['a', 'b', 'c'])
+  })
+
+  it('should read the counts to keep', () => {
+    const config = getConfig(
+      inputsFrom({
+        package: 'repo',
+        'keep-n-tagged': '3',
+        'keep-n-untagged': '0'
+      })
+    )
+
+    expect(config.keepNtagged).toBe(3)
+    expect(config.keepNuntagged).toBe(0)
+    expect(() =>
+      getConfig(inputsFrom({ package: 'repo', 'keep-n-untagged': '-1' }))
+    ).toThrow('keep-n-untagged is negative')
+    expect(() =>
+      getConfig(inputsFrom({ package: 'repo', 'keep-n-tagged': 'x' }))
+    ).toThrow('keep-n-tagged is not number')
+  })
+
+  it('should only require the repository where it is used', () => {
+    const oci = {
+      package: 'repo',
+      repository: '',
+      'registry-type': 'oci',
+      'registry-url': 'https://registry.example.com'
+    }
+
+    expect(getConfig(inputsFrom(oci)).repository).toBe('')
+    expect(() =>
+      getConfig(inputsFrom({ ...oci, 'closed-pr-tags': 'pr-{number}' }))
+    ).toThrow('repository is not set')
+    expect(() =>
+      getConfig(inputsFrom({ package: 'repo', repository: '' }))
+    ).toThrow('repository is not set')
+  })
+
+  it('should reject an invalid keep-n-per-group expression', () => {
+    expect(() =>
+      getConfig(
+        inputsFrom({
+          package: 'repo',
+          'keep-n-tagged': '1',
+          'keep-n-per-group': '^pr-(\\d+'
+        })
+      )
+    ).toThrow('keep-n-per-group: invalid regular expression ^pr-(\\d+')
+  })
+})
+
+describe('Config.resolvePackages', () => {
+  /**
+   * Creates a configuration whose owner has the given container packages.
+   */
+  function createConfig(packages: string[], available: string[]): Config {
+    const config = new Config('token')
+    config.owner = 'owner'
+    config.repository = 'repo'
+    config.packages = packages
+
+    const listPackagesForOrganization = jest.fn()
+    config.octokit = {
+      request: jest.fn(async () => ({
+        data: { private: false, owner: { type: 'Organization' } }
+      })),
+      rest: { packages: { listPackagesForOrganization } },
+      paginate: {
+        async *iterator(fetch: unknown, params: Record<string, unknown>) {
+          expect(fetch).toBe(listPackagesForOrganization)
+          expect(params).toEqual({
+            package_type: 'container',
+            org: 'owner',
+            per_page: 100
+          })
+          yield { data: available.map(name => ({ name })) }
+        }
+      }
+    }
+    return config
+  }
+
+  it('should match globs and regular expressions against the packages of the owner', async () => {
+    const config = createConfig(
+      ['service-*', '/^web-\\d+$/', 'tools', 'service-a'],
+      ['service-a', 'service-b', 'web-1', 'web-x', 'other']
+    )
+
+    expect(await config.resolvePackages()).toEqual([
+      'service-a',
+      'service-b',
+      'web-1',
+      'tools'
+    ])
+  })
+
+  it('should not list the packages for literal names', async () => {
+    const config = createConfig(['a', 'b'], [])
+
+    expect(await config.resolvePackages()).toEqual(['a', 'b'])
+    expect(config.octokit.request).not.toHaveBeenCalled()
+  })
+
+  it('should create a copy of the configuration for a package', () => {
+    const config = createConfig(['service-*'], [])
+    const copy = config.forPackage('service-a')
+
+    expect(copy).toBeInstanceOf(Config)
+    expect(copy.package).toBe('service-a')
+    expect(config.package).toBe('')
+  })
+})
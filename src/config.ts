@@ -6,6 +6,24 @@ import { throttling } from '@octokit/plugin-throttling'
 import { retry } from '@octokit/plugin-retry'
 import { requestLog } from '@octokit/plugin-request-log'
 import type { EndpointDefaults } from '@octokit/types'
+import { validateTemplate } from './github-refs'
+import { PackageVersionType } from './models'
+import {
+  loadPolicyFile,
+  parseArtifactKinds,
+  restrictRules,
+  Rule,
+  rulesFromOptions,
+  validateRegExp
+} from './policy'
+import { SemVerPolicy } from './semver'
+import {
+  getDefaultRegistryUrl,
+  isPackagePattern,
+  packagePatternToRegExp,
+  parseDuration,
+  splitList
+} from './utils'
 
 const MyOctokit = Octokit.plugin(
   restEndpointMethods,
@@ -30,21 +48,47 @@ export class Config {
   owner = ''
   repository = ''
   package = ''
+  packages: string[] = []
   token: string
+  apiUrl?: string
+  registryType: 'ghcr' | 'oci' = 'ghcr'
+  registryUrl?: string
+  registryUsername?: string
+  registryPassword?: string
   includeTags?: string
   excludeTags?: string
+  closedPrTags?: string
+  deletedBranchTags?: string
   keepNtagged?: number
+  keepNperGroup?: string
   keepNuntagged?: number
+  olderThan?: number
+  semver?: SemVerPolicy
+  protectDeployedWithin?: number
+  artifactTypes?: PackageVersionType[]
+  policyFile?: string
+  rules: Rule[] = []
+  // The maximum number of concurrent requests for manifests and deletions.
+  concurrency = 4
+  manifestCache?: string
+  failFast = false
+  journalFile?: string
   dryRun?: boolean
+  planFile?: string
+  explain?: boolean
+  summary = true
   logLevel: LogLevel
   octokit: any
 
-  constructor(token: string) {
+  constructor(token: string, apiUrl?: string) {
     this.token = token
+    this.apiUrl = apiUrl
     this.logLevel = LogLevel.WARN
 
     this.octokit = new MyOctokit({
       auth: token,
+      // Octokit defaults to https://api.github.com if not set.
+      baseUrl: apiUrl,
       throttle: {
         onRateLimit: (
           retryAfter: number,
@@ -105,15 +149,146 @@ export class Config {
     this.isPrivateRepo = result.data.private
     return result.data.owner.type
   }
+
+  /**
+   * Lists the names of all container packages of the owner.
+   *
+   * @returns A Promise that resolves to the package names.
+   */
+  async listPackages(): Promise<string[]> {
+    const ownerType = await this.getOwnerType()
+
+    // Function to retrieve packages.
+    let fetch
+
+    // Parameters for the function call.
+    let fetch_params
+
+    if (ownerType === 'User') {
+      // Use the appropriate function for user repos.
+      fetch = this.isPrivateRepo
+        ? this.octokit.rest.packages.listPackagesForAuthenticatedUser
+        : this.octokit.rest.packages.listPackagesForUser
+
+      fetch_params = {
+        package_type: 'container',
+        username: this.owner,
+        per_page: 100
+      }
+    } else {
+      fetch = this.octokit.rest.packages.listPackagesForOrganization
+
+      fetch_params = {
+        package_type: 'container',
+        org: this.owner,
+        per_page: 100
+      }
+    }
+
+    const names: string[] = []
+    for await (const response of this.octokit.paginate.iterator(
+      fetch,
+      fetch_params
+    )) {
+      for (const p of response.data) {
+        names.push(p.name)
+      }
+    }
+
+    return names
+  }
+
+  /**
+   * Resolves the configured packages into a list of package names.
+   *
+   * Literal names are used as is. Globs and regular expressions are matched against all container packages of the
+   * owner, which are only listed if at least one pattern is configured.
+   *
+   * @returns A Promise that resolves to the unique package names, in order of configuration.
+   */
+  async resolvePackages(): Promise<string[]> {
+    const result: string[] = []
+
+    const patterns = this.packages.some(isPackagePattern)
+    if (patterns && this.registryType !== 'ghcr') {
+      throw new Error('package patterns are only supported for ghcr.io')
+    }
+
+    const available = patterns ? await this.listPackages() : []
+
+    for (const p of this.packages) {
+      const names = isPackagePattern(p)
+        ? available.filter(name => packagePatternToRegExp(p).test(name))
+        : [p]
+
+      if (names.length === 0) {
+        core.warning(`No package matches ${p}.`)
+      }
+
+      for (const name of names) {
+        if (!result.includes(name)) result.push(name)
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Creates a copy of this configuration for a single package.
+   *
+   * @param name - The package name.
+   * @returns The configuration for the package.
+   */
+  forPackage(name: string): Config {
+    const config: Config = Object.create(Config.prototype)
+    Object.assign(config, this)
+    config.package = name
+    return config
+  }
+}
+
+/**
+ * Reads the inputs of the configuration, e.g. the inputs of the action or the options of the command line.
+ */
+export type InputReader = Pick<typeof core, 'getInput' | 'getBooleanInput'>
+
+/**
+ * Reads an optional input that must be a non-negative integer.
+ *
+ * @param inputs - Reads the inputs.
+ * @param name - The name of the input.
+ * @returns The value of the input, or undefined if it is not set.
+ */
+function getCountInput(inputs: InputReader, name: string): number | undefined {
+  if (!inputs.getInput(name)) return undefined
+
+  const n: number = parseInt(inputs.getInput(name))
+  if (isNaN(n)) {
+    throw new Error(`${name} is not number`)
+  } else if (n < 0) {
+    throw new Error(`${name} is negative`)
+  }
+  return n
 }
 
-export function getConfig(): Config {
-  const token: string = core.getInput('token', { required: true })
-  const config = new Config(token)
-  config.repository = core.getInput('repository')
-  config.package = core.getInput('package')
+/**
+ * Creates the configuration from the inputs.
+ *
+ * @param inputs - Reads the inputs, by default the inputs of the action.
+ * @returns The configuration.
+ */
+export function getConfig(inputs: InputReader = core): Config {
+  const token: string = inputs.getInput('token', { required: true })
+  // The API URL of GitHub Enterprise Server differs from the default.
+  const apiUrl = inputs.getInput('api-url') || process.env.GITHUB_API_URL
+  const config = new Config(token, apiUrl || undefined)
+  config.owner = inputs.getInput('owner')
+  config.repository = inputs.getInput('repository')
+  config.packages = splitList(
+    `${inputs.getInput('package')}\n${inputs.getInput('packages')}`
+  )
 
-  // auto populate
+  // auto populate, outside of a workflow the owner, repository and package must be given instead
   const GITHUB_REPOSITORY = process.env.GITHUB_REPOSITORY
   if (GITHUB_REPOSITORY) {
     const parts = GITHUB_REPOSITORY.split('/')
@@ -121,8 +296,8 @@ export function getConfig(): Config {
       if (!config.owner) {
         config.owner = parts[0]
       }
-      if (!config.package) {
-        config.package = parts[1]
+      if (config.packages.length === 0) {
+        config.packages = [parts[1]]
       }
       if (!config.repository) {
         config.repository = parts[1]
@@ -130,15 +305,49 @@ export function getConfig(): Config {
     } else {
       throw Error(`Error parsing GITHUB_REPOSITORY: ${GITHUB_REPOSITORY}`)
     }
-  } else {
-    throw Error('GITHUB_REPOSITORY is not set')
   }
 
-  config.includeTags = core.getInput('include-tags')
-  config.excludeTags = core.getInput('exclude-tags')
+  if (inputs.getInput('registry-type')) {
+    const registryType = inputs.getInput('registry-type')
+    if (registryType !== 'ghcr' && registryType !== 'oci') {
+      throw new Error(`registry-type ${registryType} is not supported`)
+    }
+    config.registryType = registryType
+  }
+
+  if (inputs.getInput('registry-url')) {
+    // Ensure a trailing slash, so that relative paths resolve below the URL.
+    config.registryUrl = inputs.getInput('registry-url').replace(/\/?$/, '/')
+  }
+  if (config.registryType === 'oci' && !config.registryUrl) {
+    throw new Error('registry-url is required for registry-type oci')
+  }
+  if (!config.registryUrl) {
+    config.registryUrl = getDefaultRegistryUrl(process.env.GITHUB_SERVER_URL)
+  }
+
+  if (inputs.getInput('registry-username')) {
+    config.registryUsername = inputs.getInput('registry-username')
+  }
+  if (inputs.getInput('registry-password')) {
+    config.registryPassword = inputs.getInput('registry-password')
+  }
+
+  config.includeTags = inputs.getInput('include-tags')
+  config.excludeTags = inputs.getInput('exclude-tags')
+
+  if (inputs.getInput('closed-pr-tags')) {
+    config.closedPrTags = inputs.getInput('closed-pr-tags')
+    validateTemplate('pull-request', config.closedPrTags)
+  }
+
+  if (inputs.getInput('deleted-branch-tags')) {
+    config.deletedBranchTags = inputs.getInput('deleted-branch-tags')
+    validateTemplate('branch', config.deletedBranchTags)
+  }
 
-  if (core.getInput('dry-run')) {
-    config.dryRun = core.getBooleanInput('dry-run')
+  if (inputs.getInput('dry-run')) {
+    config.dryRun = inputs.getBooleanInput('dry-run')
     if (config.dryRun) {
       core.info('Dry-run mode enabled. No versions will actually be deleted.')
     }
@@ -146,40 +355,128 @@ export function getConfig(): Config {
     config.dryRun = false
   }
 
-  if (core.getInput('keep-n-tagged')) {
-    const n: number = parseInt(core.getInput('keep-n-tagged'))
-    if (isNaN(n)) {
-      throw new Error('keep-n-tagged is not number')
-    } else if (n < 0) {
-      throw new Error('keep-n-tagged is negative')
-    } else {
-      config.keepNtagged = n
+  if (inputs.getInput('summary')) {
+    config.summary = inputs.getBooleanInput('summary')
+  }
+
+  if (inputs.getInput('explain')) {
+    config.explain = inputs.getBooleanInput('explain')
+  }
+
+  const concurrency = getCountInput(inputs, 'concurrency')
+  if (concurrency != null) {
+    if (concurrency < 1) {
+      throw new Error('concurrency must be at least 1')
     }
+    config.concurrency = concurrency
   }
 
-  if (core.getInput('keep-n-untagged')) {
-    const n: number = parseInt(core.getInput('keep-n-untagged'))
-    if (isNaN(n)) {
-      throw new Error('keep-n-untagged is not number')
-    } else if (n < 0) {
-      throw new Error('keep-n-untagged is negative')
-    } else {
-      config.keepNuntagged = n
+  if (inputs.getInput('manifest-cache')) {
+    config.manifestCache = inputs.getInput('manifest-cache')
+  }
+
+  if (inputs.getInput('fail-fast')) {
+    config.failFast = inputs.getBooleanInput('fail-fast')
+  }
+
+  if (inputs.getInput('journal-file')) {
+    config.journalFile = inputs.getInput('journal-file')
+  }
+
+  if (inputs.getInput('plan-file')) {
+    config.planFile = inputs.getInput('plan-file')
+  }
+
+  config.keepNtagged = getCountInput(inputs, 'keep-n-tagged')
+
+  if (inputs.getInput('keep-n-per-group')) {
+    if (config.keepNtagged == null) {
+      throw new Error('keep-n-per-group requires keep-n-tagged')
+    }
+    config.keepNperGroup = inputs.getInput('keep-n-per-group')
+    validateRegExp('keep-n-per-group', config.keepNperGroup)
+  }
+
+  config.keepNuntagged = getCountInput(inputs, 'keep-n-untagged')
+
+  const semver: SemVerPolicy = {
+    keepNpatch: getCountInput(inputs, 'semver-keep-n-patch'),
+    keepNminor: getCountInput(inputs, 'semver-keep-n-minor'),
+    keepNprerelease: getCountInput(inputs, 'semver-keep-n-prerelease')
+  }
+  if (Object.values(semver).some(n => n != null)) {
+    config.semver = semver
+  }
+
+  if (inputs.getInput('older-than') && inputs.getInput('keep-younger-than')) {
+    throw new Error('older-than and keep-younger-than are mutually exclusive')
+  }
+
+  // Both options express the same threshold, only from different angles.
+  const olderThan =
+    inputs.getInput('older-than') || inputs.getInput('keep-younger-than')
+  if (olderThan) {
+    config.olderThan = parseDuration(olderThan)
+  }
+
+  if (inputs.getInput('protect-deployed-within')) {
+    config.protectDeployedWithin = parseDuration(
+      inputs.getInput('protect-deployed-within')
+    )
+  }
+
+  if (inputs.getInput('policy-file')) {
+    // The policy file replaces the individual retention options.
+    const conflicting = [
+      'include-tags',
+      'exclude-tags',
+      'closed-pr-tags',
+      'deleted-branch-tags',
+      'keep-n-tagged',
+      'keep-n-per-group',
+      'keep-n-untagged',
+      'older-than',
+      'keep-younger-than',
+      'semver-keep-n-patch',
+      'semver-keep-n-minor',
+      'semver-keep-n-prerelease'
+    ].filter(name => inputs.getInput(name))
+    if (conflicting.length > 0) {
+      throw new Error(
+        `policy-file cannot be combined with ${conflicting.join(', ')}`
+      )
     }
+    config.policyFile = inputs.getInput('policy-file')
+    config.rules = loadPolicyFile(config.policyFile)
+  } else {
+    config.rules = rulesFromOptions(config)
+  }
+
+  if (inputs.getInput('artifact-types')) {
+    // Only versions of these kinds are cleaned up, all others are kept.
+    config.artifactTypes = parseArtifactKinds(
+      splitList(inputs.getInput('artifact-types'))
+    )
+    config.rules = restrictRules(config.rules, config.artifactTypes)
   }
 
   if (!config.owner) {
     throw new Error('owner is not set')
   }
-  if (!config.package) {
+  if (config.packages.length === 0) {
     throw new Error('package is not set')
   }
-  if (!config.repository) {
+  // Only the GitHub API and the rules about pull requests, branches and deployments need the repository.
+  const needsRepository =
+    config.registryType === 'ghcr' ||
+    config.protectDeployedWithin != null ||
+    config.rules.some(rule => rule.staleRefs != null)
+  if (needsRepository && !config.repository) {
     throw new Error('repository is not set')
   }
 
-  if (core.getInput('log-level')) {
-    const level = core.getInput('log-level').toLowerCase()
+  if (inputs.getInput('log-level')) {
+    const level = inputs.getInput('log-level').toLowerCase()
     if (level === 'error') {
       config.logLevel = LogLevel.ERROR
     } else if (level === 'warn') {
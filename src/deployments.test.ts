@@ -0,0 +1,177 @@
+import type { Config } from './config'
+import {
+  Deployment,
+  extractReferences,
+  findDeployedReferences,
+  listDeployments,
+  selectDeployments
+} from './deployments'
+
+const DIGEST = `sha256:${'a'.repeat(64)}`
+
+describe('extractReferences', () => {
+  it('should find tags and digests in nested payloads', () => {
+    expect(
+      extractReferences(
+        {
+          image: 'ghcr.io/owner/package:1.2.3',
+          services: [
+            { image: `ghcr.io/owner/package@${DIGEST}` },
+            { image: 'ghcr.io/owner/other:latest' }
+          ],
+          replicas: 3
+        },
+        'package'
+      )
+    ).toEqual({ tags: ['1.2.3'], digests: [DIGEST] })
+  })
+
+  it('should parse payloads given as JSON strings', () => {
+    expect(
+      extractReferences('{"image": "package:main-abc"}', 'package')
+    ).toEqual({ tags: ['main-abc'], digests: [] })
+  })
+
+  it('should not match packages whose name ends with the package name', () => {
+    expect(
+      extractReferences('ghcr.io/owner/my-package:1.0.0', 'package')
+    ).toEqual({ tags: [], digests: [] })
+  })
+})
+
+describe('selectDeployments', () => {
+  const now = Date.parse('2024-06-01T00:00:00Z')
+  const day = 24 * 60 * 60 * 1000
+  const deployment = (
+    environment: string,
+    age: number
+  ): { environment: string; created_at: string; payload: unknown } => ({
+    environment,
+    created_at: new Date(now - age * day).toISOString(),
+    payload: {}
+  })
+
+  it('should select recent deployments and the latest per environment', () => {
+    const deployments = [
+      deployment('production', 60),
+      deployment('production', 40),
+      deployment('staging', 2),
+      deployment('staging', 5),
+      deployment('staging', 20)
+    ]
+
+    expect(selectDeployments(deployments, 7 * day, now)).toEqual([
+      deployments[2],
+      deployments[3],
+      deployments[1]
+    ])
+  })
+})
+
+describe('listDeployments', () => {
+  const now = Date.parse('2024-06-01T00:00:00Z')
+  const day = 24 * 60 * 60 * 1000
+  const deployment = (environment: string, age: number): Deployment => ({
+    environment,
+    created_at: new Date(now - age * day).toISOString(),
+    payload: { environment }
+  })
+
+  // Pages of deployments from newest to oldest.
+  const pages = [
+    [deployment('staging', 1), deployment('production', 3)],
+    [deployment('staging', 10), deployment('production', 12)],
+    [deployment('qa', 30)]
+  ]
+
+  /**
+   * Creates a configuration listing the given environments, or failing to list them.
+   */
+  function createConfig(environments: string[] | Error): {
+    config: Config
+    listed: number[]
+  } {
+    const listed: number[] = []
+    const listDeploymentsFn = jest.fn(
+      async (params: { environment: string }) => ({
+        data: pages
+          .flat()
+          .filter(d => d.environment === params.environment)
+          .slice(0, 1)
+      })
+    )
+    const getAllEnvironments = jest.fn()
+    const octokit = {
+      rest: {
+        repos: { listDeployments: listDeploymentsFn, getAllEnvironments }
+      },
+      paginate: Object.assign(
+        async (fetch: unknown) => {
+          expect(fetch).toBe(listDeploymentsFn)
+          return pages.flat()
+        },
+        {
+          async *iterator(fetch: unknown) {
+            if (fetch === getAllEnvironments) {
+              if (environments instanceof Error) throw environments
+              yield { data: environments.map(name => ({ name })) }
+              return
+            }
+            for (const [i, page] of pages.entries()) {
+              listed.push(i)
+              yield { data: page }
+            }
+          }
+        }
+      )
+    }
+    const config = {
+      owner: 'owner',
+      repository: 'repo',
+      octokit
+    } as unknown as Config
+    return { config, listed }
+  }
+
+  it('should stop listing at the first page past the time window', async () => {
+    const { config, listed } = createConfig(['production', 'staging', 'qa'])
+
+    const deployments = await listDeployments(config, 7 * day, now)
+
+    expect(listed).toEqual([0, 1])
+    // The latest deployment of qa is looked up by its environment.
+    expect(deployments).toEqual([pages[0][0], pages[0][1], pages[2][0]])
+  })
+
+  it('should list all deployments if the environments cannot be listed', async () => {
+    const { config } = createConfig(new Error('Resource not accessible'))
+
+    expect(await listDeployments(config, 7 * day, now)).toEqual([
+      pages[0][0],
+      pages[0][1],
+      pages[2][0]
+    ])
+  })
+})
+
+describe('findDeployedReferences', () => {
+  it('should collect the references of all deployments', () => {
+    expect(
+      findDeployedReferences(
+        [
+          {
+            environment: 'production',
+            created_at: '2024-06-01T00:00:00Z',
+            payload: { image: 'ghcr.io/owner/package:1.0.0' }
+          },
+          {
+            environment: 'staging',
+            created_at: '2024-06-01T00:00:00Z',
+            payload: `ghcr.io/owner/package@${DIGEST}`
+          }
+        ],
+        'package'
+      )
+    ).toEqual({ tags: ['1.0.0'], digests: [DIGEST] })
+  })
+})
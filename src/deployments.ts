@@ -0,0 +1,189 @@
+import * as core from '@actions/core'
+import type { Config } from './config'
+
+/**
+ * The tags and digests of a package referenced by deployments.
+ */
+export interface DeployedReferences {
+  tags: string[]
+  digests: string[]
+}
+
+/**
+ * A deployment as returned by the GitHub Deployments API, reduced to the properties used here.
+ */
+export interface Deployment {
+  environment: string
+  created_at: string
+  payload: unknown
+}
+
+/**
+ * Collects the references to a package from a deployment payload.
+ *
+ * The payload is searched recursively for strings. Any digest, e.g. `sha256:...`, is collected, as is the tag of any
+ * image reference to the package, e.g. `ghcr.io/owner/package:1.2.3` or `package:1.2.3`. A payload given as a JSON
+ * string is parsed first.
+ *
+ * @param payload - The deployment payload.
+ * @param packageName - The name of the package.
+ * @param result - The references collected so far.
+ * @returns The references collected so far, including those of the payload.
+ */
+export function extractReferences(
+  payload: unknown,
+  packageName: string,
+  result: DeployedReferences = { tags: [], digests: [] }
+): DeployedReferences {
+  if (typeof payload === 'string') {
+    // Payloads created through the API may be JSON strings.
+    try {
+      const parsed: unknown = JSON.parse(payload)
+      if (typeof parsed === 'object' && parsed !== null) {
+        return extractReferences(parsed, packageName, result)
+      }
+    } catch {
+      // Not JSON, search the string itself.
+    }
+
+    for (const match of payload.matchAll(/sha256:[a-f0-9]{64}/g)) {
+      if (!result.digests.includes(match[0])) result.digests.push(match[0])
+    }
+
+    const escaped = packageName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    const regex = new RegExp(
+      `(?:^|[/\\s"'=])${escaped}:([A-Za-z0-9_][A-Za-z0-9_.-]{0,127})`,
+      'g'
+    )
+    for (const match of payload.matchAll(regex)) {
+      if (!result.tags.includes(match[1])) result.tags.push(match[1])
+    }
+  } else if (Array.isArray(payload)) {
+    for (const item of payload) {
+      extractReferences(item, packageName, result)
+    }
+  } else if (typeof payload === 'object' && payload !== null) {
+    for (const value of Object.values(payload)) {
+      extractReferences(value, packageName, result)
+    }
+  }
+
+  return result
+}
+
+/**
+ * Selects the deployments whose images to protect.
+ *
+ * These are the most recent deployment of each environment, which is assumed to be running, and all deployments
+ * created within the given time window.
+ *
+ * @param deployments - The deployments of the repository.
+ * @param within - The time window in milliseconds.
+ * @param now - The reference point in time.
+ * @returns The selected deployments.
+ */
+export function selectDeployments<T extends Deployment>(
+  deployments: T[],
+  within: number,
+  now = Date.now()
+): T[] {
+  const sorted = [...deployments].sort(
+    (x, y) => Date.parse(y.created_at) - Date.parse(x.created_at)
+  )
+
+  const environments = new Set<string>()
+  return sorted.filter(d => {
+    const latest = !environments.has(d.environment)
+    environments.add(d.environment)
+    return latest || Date.parse(d.created_at) > now - within
+  })
+}
+
+/**
+ * Lists the deployments of the repository whose images to protect.
+ *
+ * Deployments are listed from newest to oldest, so listing stops at the first page reaching past the time window. The
+ * most recent deployment of each environment not deployed to within the window is then looked up per environment. If
+ * the environments cannot be listed, all deployments are listed instead.
+ *
+ * @param config - The action configuration.
+ * @param within - The time window in milliseconds for deployments to consider besides the most recent one of each
+ *   environment.
+ * @param now - The reference point in time.
+ * @returns A Promise that resolves to the selected deployments.
+ */
+export async function listDeployments(
+  config: Config,
+  within: number,
+  now = Date.now()
+): Promise<Deployment[]> {
+  const params = { owner: config.owner, repo: config.repository }
+
+  const deployments: Deployment[] = []
+  let complete = true
+  for await (const response of config.octokit.paginate.iterator(
+    config.octokit.rest.repos.listDeployments,
+    { ...params, per_page: 100 }
+  )) {
+    const page: Deployment[] = response.data
+    deployments.push(...page)
+    if (page.some(d => Date.parse(d.created_at) <= now - within)) {
+      complete = false
+      break
+    }
+  }
+
+  if (!complete) {
+    const environments: string[] = []
+    try {
+      for await (const response of config.octokit.paginate.iterator(
+        config.octokit.rest.repos.getAllEnvironments,
+        { ...params, per_page: 100 }
+      )) {
+        environments.push(...response.data.map((e: { name: string }) => e.name))
+      }
+    } catch (error) {
+      core.info(
+        `Unable to list the environments (${error instanceof Error ? error.message : error}), listing all deployments instead.`
+      )
+      return selectDeployments(
+        await config.octokit.paginate(
+          config.octokit.rest.repos.listDeployments,
+          { ...params, per_page: 100 }
+        ),
+        within,
+        now
+      )
+    }
+
+    const seen = new Set(deployments.map(d => d.environment))
+    for (const environment of environments.filter(e => !seen.has(e))) {
+      const response = await config.octokit.rest.repos.listDeployments({
+        ...params,
+        environment,
+        per_page: 1
+      })
+      deployments.push(...response.data)
+    }
+  }
+
+  return selectDeployments(deployments, within, now)
+}
+
+/**
+ * Determines the tags and digests of a package referenced by deployments.
+ *
+ * @param deployments - The deployments whose images to protect.
+ * @param packageName - The name of the package.
+ * @returns The referenced tags and digests.
+ */
+export function findDeployedReferences(
+  deployments: Deployment[],
+  packageName: string
+): DeployedReferences {
+  const result: DeployedReferences = { tags: [], digests: [] }
+  for (const d of deployments) {
+    extractReferences(d.payload, packageName, result)
+  }
+  return result
+}
@@ -0,0 +1,482 @@
+import * as core from '@actions/core'
+import fs from 'fs'
+import path from 'path'
+import type { Config } from './config'
+import {
+  createPackagesClient,
+  FakeGhcr,
+  loadUpstreamManifests
+} from './fake-ghcr'
+import { runCli } from './cli'
+import { formatExpected, parseExpected } from './expected'
+import {
+  createFixture,
+  formatFixture,
+  loadFixtureFile,
+  parseFixture
+} from './fixture'
+import { GithubPackageRepo } from './github-package'
+import { cleanup, CleanupAction, setOutputs } from './main'
+import { rulesFromOptions } from './policy'
+import { FixtureInput } from './schemas'
+import { sha256 } from './utils'
+
+// The configuration module loads Octokit, which Jest cannot load, and is not needed since the config is built here.
+jest.mock('./config', () => ({}))
+
+const TESTS_DIR = path.join(__dirname, '..', 'tests')
+
+// The busybox image kept in the package, since the last version of a package cannot be deleted.
+const DUMMY_DIGEST =
+  'sha256:6d9a2e77c3b19944a28c3922f5715ede91c1ae869d91edf5f6adf88ed54e97cf'
+
+/**
+ * A scenario under `tests/`, with the action inputs of the integration test matrix in `.github/workflows/ci.yml`.
+ */
+interface Scenario {
+  folder: string
+  includeTags?: string
+  excludeTags?: string
+  keepNtagged?: number
+  keepNuntagged?: number
+  dryRun?: boolean
+}
+
+const scenarios: Scenario[] = [
+  { folder: '01_no_arguments' },
+  { folder: '02_include_tags_single_arch', includeTags: '^1.3[23]-uclibc$' },
+  { folder: '03_include_tags_multi_arch', includeTags: '^1.3[23]-uclibc$' },
+  {
+    folder: '04_include_exclude_tags_single_arch',
+    includeTags: '^1.3[23]-uclibc$',
+    excludeTags: '^1.33-uclibc$'
+  },
+  {
+    folder: '05_include_exclude_tags_multi_arch',
+    includeTags: '^1.3[23]-uclibc$',
+    excludeTags: '^1.33-uclibc$'
+  },
+  { folder: '06_keep_n_tagged_single_arch', keepNtagged: 3 },
+  { folder: '07_keep_n_tagged_multi_arch', keepNtagged: 3 },
+  { folder: '08_keep_n_untagged_single_arch', keepNuntagged: 3 },
+  { folder: '09_keep_n_untagged_multi_arch', keepNuntagged: 2 },
+  { folder: '10_keep_n_untagged_multi_arch_interleaved', keepNuntagged: 2 },
+  {
+    folder: '11_all_options_single_arch',
+    includeTags: '^1.35-uclibc$',
+    excludeTags: '^1.31-uclibc$',
+    keepNtagged: 2,
+    keepNuntagged: 3
+  },
+  {
+    folder: '12_all_options_multi_arch',
+    includeTags: '^1.35-uclibc$',
+    excludeTags: '^1.31-uclibc$',
+    keepNtagged: 2,
+    keepNuntagged: 2
+  },
+  {
+    folder: '13_dry_run_multi_arch',
+    includeTags: '^1.35-uclibc$',
+    excludeTags: '^1.31-uclibc$',
+    keepNtagged: 2,
+    keepNuntagged: 14,
+    dryRun: true
+  },
+  // Primed from a fixture, since the image is built and attested in the workflow.
+  { folder: '14_attestation_tagged', includeTags: 'test' }
+]
+
+/**
+ * Reads the lines of a scenario file, without comments and empty lines.
+ */
+function readLines(filePath: string): string[] {
+  return fs
+    .readFileSync(filePath, 'utf-8')
+    .split('\n')
+    .map(line =>
+      (line.includes('//')
+        ? line.substring(0, line.indexOf('//'))
+        : line
+      ).trim()
+    )
+    .filter(line => line.length > 0)
+}
+
+/**
+ * Creates the configuration for the fake registry.
+ */
+function createConfig(ghcr: FakeGhcr, scenario: Partial<Scenario>): Config {
+  const octokit = createPackagesClient(ghcr.url, ghcr.token)
+  const config = {
+    owner: 'owner',
+    repository: 'repo',
+    package: 'repo',
+    packages: ['repo'],
+    token: ghcr.token,
+    apiUrl: ghcr.url,
+    registryType: 'ghcr',
+    registryUrl: `${ghcr.url}/`,
+    isPrivateRepo: false,
+    concurrency: 4,
+    failFast: false,
+    summary: false,
+    dryRun: scenario.dryRun ?? false,
+    rules: rulesFromOptions(scenario),
+    octokit,
+    async getOwnerType(): Promise<string> {
+      const { data } = await octokit.request('GET /repos/owner/repo')
+      return (data as { owner: { type: string } }).owner.type
+    },
+    async resolvePackages(): Promise<string[]> {
+      return ['repo']
+    },
+    forPackage(): Config {
+      return config as unknown as Config
+    }
+  }
+  return config as unknown as Config
+}
+
+/**
+ * Primes the package from the `fixture.yml` file, if any, or else like the `prime` mode of the CI tester, copying the
+ * images of the `prime` file and deleting the versions of the `prime-delete` file.
+ */
+async function prime(ghcr: FakeGhcr, dir: string): Promise<void> {
+  const fixture = path.join(dir, 'fixture.yml')
+  if (fs.existsSync(fixture)) {
+    ghcr.loadFixture('owner/repo', loadFixtureFile(fixture))
+    return
+  }
+
+  const upstream = loadUpstreamManifests(
+    path.join(TESTS_DIR, 'busybox-manifests.json')
+  )
+  ghcr.copyImage('owner/repo', upstream, DUMMY_DIGEST, ['dummy'], false)
+
+  for (const line of readLines(path.join(dir, 'prime'))) {
+    const [image, tags, args] = line.split('|')
+    ghcr.copyImage(
+      'owner/repo',
+      upstream,
+      image.substring(image.indexOf('@') + 1),
+      tags ? tags.split(',').map(t => t.trim()) : [],
+      (args ?? '').split(' ').includes('--all')
+    )
+  }
+
+  const primeDelete = path.join(dir, 'prime-delete')
+  if (fs.existsSync(primeDelete)) {
+    const repo = new GithubPackageRepo(createConfig(ghcr, {}))
+    await repo.init()
+    await repo.loadVersions()
+    for (const digest of readLines(primeDelete)) {
+      await repo.deleteVersion(digest)
+    }
+  }
+}
+
+/**
+ * Loads the digests and tags remaining in the package.
+ */
+async function loadContents(
+  ghcr: FakeGhcr
+): Promise<{ digests: string[]; tags: string[] }> {
+  const repo = new GithubPackageRepo(createConfig(ghcr, {}))
+  await repo.init()
+  await repo.loadVersions()
+  return {
+    digests: repo.getDigests().sort(),
+    tags: repo.getTags(true).sort()
+  }
+}
+
+describe('integration scenarios', () => {
+  const ghcr = new FakeGhcr()
+
+  beforeAll(async () => {
+    await ghcr.start()
+  })
+
+  afterAll(async () => {
+    await ghcr.stop()
+  })
+
+  beforeEach(() => {
+    ghcr.reset()
+  })
+
+  it.each(scenarios)('$folder', async scenario => {
+    const dir = path.join(TESTS_DIR, scenario.folder)
+    await prime(ghcr, dir)
+
+    const action = new CleanupAction(createConfig(ghcr, scenario))
+    await action.init()
+    const result = await action.run()
+
+    expect(result.error).toBeUndefined()
+    expect(await loadContents(ghcr)).toEqual({
+      digests: readLines(path.join(dir, 'expected-digests')).sort(),
+      tags: readLines(path.join(dir, 'expected-tags')).sort()
+    })
+  })
+
+  it('should clean up the other packages if one fails', async () => {
+    await prime(ghcr, path.join(TESTS_DIR, '14_attestation_tagged'))
+    const config = createConfig(ghcr, { includeTags: 'test' })
+    config.resolvePackages = async () => ['missing', 'repo']
+    config.forPackage = name => ({ ...config, package: name }) as Config
+
+    const results = await cleanup(config)
+
+    expect(results.map(r => r.package)).toEqual(['missing', 'repo'])
+    expect(results[0].error).toBeDefined()
+    expect(results[1].error).toBeUndefined()
+    expect(results[1].versions).toHaveLength(5)
+    expect(ghcr.getPackage('owner/repo').versions).toHaveLength(1)
+  })
+
+  it('should only report the planned deletions in dry-run mode', async () => {
+    await prime(ghcr, path.join(TESTS_DIR, '14_attestation_tagged'))
+    const config = createConfig(ghcr, { includeTags: 'test', dryRun: true })
+    const setOutput = jest.spyOn(core, 'setOutput').mockImplementation()
+
+    setOutputs(true, await cleanup(config))
+
+    const outputs = Object.fromEntries(setOutput.mock.calls)
+    expect(outputs).toMatchObject({
+      'deleted-tags': '[]',
+      'deleted-digests': '[]',
+      'deleted-count': 0,
+      'kept-count': 6,
+      'would-delete-tags': JSON.stringify(['test', `sha256-${'3'.repeat(64)}`]),
+      'would-delete-count': 5
+    })
+    expect(JSON.parse(outputs['would-delete-digests'])).toHaveLength(5)
+    expect(ghcr.getPackage('owner/repo').versions).toHaveLength(6)
+  })
+
+  it.each([
+    ['tags', 'ghcr.io/owner/repo:test'],
+    ['digests', `ghcr.io/owner/repo@sha256:${'3'.repeat(64)}`]
+  ])('should keep deployed %s', async (_kind, image) => {
+    await prime(ghcr, path.join(TESTS_DIR, '14_attestation_tagged'))
+    const config = createConfig(ghcr, { includeTags: 'test' })
+    config.protectDeployedWithin = 24 * 60 * 60 * 1000
+
+    const action = new CleanupAction(config, [
+      {
+        environment: 'production',
+        created_at: new Date().toISOString(),
+        payload: { image }
+      }
+    ])
+    await action.init()
+    const result = await action.run()
+
+    expect(result.versions).toHaveLength(0)
+    const index = result.plan?.versions.find(
+      v => v.digest === `sha256:${'3'.repeat(64)}`
+    )
+    expect(index?.action).toBe('keep')
+    expect(index?.decision?.rule).toBe('protect-deployed-within')
+    expect(ghcr.getPackage('owner/repo').versions).toHaveLength(6)
+  })
+
+  it('should save the expected files of a package', async () => {
+    await prime(ghcr, path.join(TESTS_DIR, '14_attestation_tagged'))
+    const repo = new GithubPackageRepo(createConfig(ghcr, {}))
+    await repo.init()
+    await repo.loadVersions()
+    const digest = (c: string): string => `sha256:${c.repeat(64)}`
+
+    const all = formatExpected(repo)
+    expect(parseExpected(all.digests)).toEqual([
+      DUMMY_DIGEST,
+      digest('3'),
+      digest('1'),
+      digest('2'),
+      digest('5'),
+      digest('4')
+    ])
+    expect(parseExpected(all.tags)).toEqual([
+      'dummy',
+      'test',
+      `sha256-${'3'.repeat(64)}`
+    ])
+    expect(all.digests).toContain(
+      `${digest('1')} // untagged single-arch image, child of ${digest('3')}\n`
+    )
+
+    // Scoped to a tag, the files list the closure of the tag only.
+    const scoped = formatExpected(repo, 'test')
+    expect(parseExpected(scoped.digests)).toEqual(
+      parseExpected(all.digests).slice(1)
+    )
+    expect(parseExpected(scoped.tags)).toEqual(parseExpected(all.tags).slice(1))
+    expect(() => formatExpected(repo, 'latest')).toThrow(
+      'Tag latest not found in the package'
+    )
+  })
+})
+
+describe('command line', () => {
+  const ghcr = new FakeGhcr()
+  const digest = (c: string): string => `sha256:${c.repeat(64)}`
+
+  // Runs the command line, returning the exit code and the lines written to stdout and stderr.
+  const run = async (
+    ...args: string[]
+  ): Promise<{ code: number; lines: string[]; log: string }> => {
+    const stdout = jest.spyOn(process.stdout, 'write').mockReturnValue(true)
+    const stderr = jest.spyOn(process.stderr, 'write').mockReturnValue(true)
+    try {
+      const code = await runCli(args, inputs =>
+        createConfig(ghcr, {
+          includeTags: inputs.getInput('include-tags'),
+          dryRun: inputs.getInput('dry-run') === 'true'
+        })
+      )
+      const output = (spy: typeof stdout): string =>
+        spy.mock.calls.map(call => `${call[0]}`).join('')
+      return {
+        code,
+        lines: output(stdout).split('\n').slice(0, -1),
+        log: output(stderr)
+      }
+    } finally {
+      stdout.mockRestore()
+      stderr.mockRestore()
+    }
+  }
+
+  beforeAll(async () => {
+    await ghcr.start()
+  })
+
+  afterAll(async () => {
+    await ghcr.stop()
+  })
+
+  beforeEach(async () => {
+    ghcr.reset()
+    await prime(ghcr, path.join(TESTS_DIR, '14_attestation_tagged'))
+  })
+
+  it('should print the versions as trees', async () => {
+    const { code, lines } = await run('tree')
+
+    expect(code).toBe(0)
+    expect(lines.map(l => l.replace(/ \{.*\}$/, ''))).toEqual([
+      'owner/repo',
+      `-  ${digest('3')}`,
+      `   ├─ ${digest('1')}`,
+      `   ├─ ${digest('2')}`,
+      `   └─ ${digest('5')}`,
+      `      └─ ${digest('4')}`,
+      expect.stringMatching(/^- {2}sha256:[0-9a-f]{64}$/)
+    ])
+  })
+
+  it('should plan without deleting', async () => {
+    const { code, lines, log } = await run('plan', '--include-tags', 'test')
+
+    expect(code).toBe(0)
+    // Only the plan is written to stdout, the log goes to stderr.
+    expect(lines[0]).toBe('owner/repo: delete 5 of 6 versions and 2 of 3 tags')
+    expect(lines.slice(1).map(l => l.replace(/: .*$/, ''))).toEqual([
+      `- delete ${digest('3')} multi-arch image (test)`,
+      `  - delete ${digest('1')} single-arch image`,
+      `  - delete ${digest('2')} attestation`,
+      `  - delete ${digest('5')} attestation (sha256-${'3'.repeat(64)})`,
+      `    - delete ${digest('4')} attestation`,
+      expect.stringMatching(
+        /^- keep sha256:[0-9a-f]{64} single-arch image \(dummy\)$/
+      ),
+      '- delete tag test',
+      `- delete tag sha256-${'3'.repeat(64)}`
+    ])
+    expect(log).toContain('::group::Load package versions.')
+    expect(ghcr.getPackage('owner/repo').versions).toHaveLength(6)
+  })
+
+  it('should apply the cleanup', async () => {
+    const { code, lines } = await run('apply', '--include-tags', 'test')
+
+    expect(code).toBe(0)
+    expect(lines.map(l => l.replace(/ \{.*\}$/, ''))).toEqual([
+      'owner/repo: deleted 2 tags and 5 versions',
+      '- tag test',
+      `- tag sha256-${'3'.repeat(64)}`,
+      ...['3', '1', '2', '5', '4'].map(c => `- version ${digest(c)}`)
+    ])
+    expect(ghcr.getPackage('owner/repo').versions).toHaveLength(1)
+  })
+
+  it('should reject an invalid command line', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation()
+    try {
+      const { code, lines } = await run('cleanup')
+
+      expect(code).toBe(2)
+      expect(lines).toEqual([])
+      expect(error).toHaveBeenCalledWith('Unknown command cleanup\n')
+    } finally {
+      error.mockRestore()
+    }
+  })
+})
+
+describe('FakeGhcr', () => {
+  const ghcr = new FakeGhcr()
+
+  beforeAll(async () => {
+    await ghcr.start()
+  })
+
+  afterAll(async () => {
+    await ghcr.stop()
+  })
+
+  it('should challenge unauthenticated registry requests', async () => {
+    const response = await fetch(`${ghcr.url}/v2/owner/repo/tags/list`)
+
+    expect(response.status).toBe(401)
+    expect(response.headers.get('www-authenticate')).toBe(
+      `Bearer realm="${ghcr.url}/token",service="ghcr.io",scope="repository:owner/repo:pull"`
+    )
+  })
+
+  it('should restore a snapshot of a package', async () => {
+    ghcr.reset()
+    await prime(ghcr, path.join(TESTS_DIR, '01_no_arguments'))
+    const snapshot = async (): Promise<FixtureInput> => {
+      const repo = new GithubPackageRepo(createConfig(ghcr, {}))
+      await repo.init()
+      await repo.loadVersions()
+      return createFixture('owner/repo', repo)
+    }
+    const before = await snapshot()
+
+    ghcr.reset()
+    ghcr.loadFixture('owner/repo', parseFixture(formatFixture(before)))
+    const after = await snapshot()
+
+    // Versions get new ids, but keep their digests, tags, timestamps and manifests.
+    expect(after).toEqual(before)
+  })
+
+  it('should refuse to delete the last version of a package', async () => {
+    const version = ghcr.putManifest('owner/last', sha256('{}'), {
+      mediaType: 'application/vnd.oci.image.manifest.v1+json',
+      content: '{}'
+    })
+
+    const response = await fetch(
+      `${ghcr.url}/users/owner/packages/container/last/versions/${version.id}`,
+      { method: 'DELETE', headers: { Authorization: `token ${ghcr.token}` } }
+    )
+
+    expect(response.status).toBe(400)
+  })
+})
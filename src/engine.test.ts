@@ -0,0 +1,284 @@
+import { groupItems, RuleEngine, VersionSource } from './engine'
+import { PackageVersionExt, PackageVersionExtModel } from './models'
+import { Rule } from './policy'
+import { linkVersions } from './tree'
+
+const NOW = Date.parse('2024-06-01T00:00:00Z')
+const DAY = 24 * 60 * 60 * 1000
+
+const createVersion = (
+  id: number,
+  tags: string[] = [],
+  age = 100
+): PackageVersionExt => {
+  const date = new Date(NOW - age * DAY).toISOString()
+  const v = new PackageVersionExtModel(
+    {
+      id,
+      name: `sha256:${id.toString().padStart(64, '0')}`,
+      url: `https://api.github.com/versions/${id}`,
+      package_html_url: 'https://github.com/owner/package',
+      created_at: date,
+      updated_at: date,
+      html_url: `https://github.com/owner/package/versions/${id}`,
+      metadata: {
+        package_type: 'container',
+        container: { tags }
+      }
+    },
+    { mediaType: 'application/vnd.oci.image.manifest.v1+json' }
+  )
+  v.type = 'single-arch image'
+  return v
+}
+
+class FakeRepo implements VersionSource {
+  versions: PackageVersionExt[]
+
+  constructor(versions: PackageVersionExt[]) {
+    this.versions = versions
+  }
+
+  getTags(): string[] {
+    return this.versions.flatMap(v => v.metadata.container.tags)
+  }
+
+  getVersion(key: string | number): PackageVersionExt | undefined {
+    return this.versions.find(
+      v =>
+        v.id === key ||
+        v.name === key ||
+        v.metadata.container.tags.includes(`${key}`)
+    )
+  }
+
+  getVersions(): PackageVersionExt[] {
+    return this.versions
+  }
+
+  getRoots(): PackageVersionExt[] {
+    return this.versions.filter(v => v.parent == null)
+  }
+}
+
+const evaluate = (
+  versions: PackageVersionExt[],
+  rules: Rule[]
+): { tags: string[]; ids: number[] } => {
+  const result = new RuleEngine(new FakeRepo(versions), NOW).evaluate(rules)
+  return {
+    tags: result.tags.sort(),
+    ids: result.versions.map(v => v.id).sort((a, b) => a - b)
+  }
+}
+
+describe('groupItems', () => {
+  it('should group items by the named capture group', () => {
+    expect(
+      groupItems('^pr-(?<group>\\d+)-', [
+        'pr-1-a',
+        'pr-2-a',
+        'pr-1-b',
+        'latest'
+      ])
+    ).toEqual(
+      new Map([
+        ['1', ['pr-1-a', 'pr-1-b']],
+        ['2', ['pr-2-a']]
+      ])
+    )
+  })
+
+  it('should fall back to the first capture group', () => {
+    expect(groupItems('^(\\w+)-', ['main-1', 'dev-1', 'main-2'])).toEqual(
+      new Map([
+        ['main', ['main-1', 'main-2']],
+        ['dev', ['dev-1']]
+      ])
+    )
+  })
+})
+
+describe('RuleEngine', () => {
+  it('should keep everything without rules', () => {
+    const versions = [createVersion(1, ['a']), createVersion(2)]
+    expect(evaluate(versions, [])).toEqual({ tags: [], ids: [] })
+    expect(versions[0].decision).toEqual({
+      action: 'keep',
+      rule: 'not selected'
+    })
+  })
+
+  it('should let earlier rules claim tags first', () => {
+    const versions = [
+      createVersion(1, ['main-1'], 5),
+      createVersion(2, ['main-2'], 4),
+      createVersion(3, ['main-3'], 3),
+      createVersion(4, ['v1.0.0'], 2),
+      createVersion(5, ['pr-1'], 1)
+    ]
+    const result = evaluate(versions, [
+      { name: 'releases', tags: '^v', action: 'keep' },
+      { name: 'main', tags: '^main-', keepN: 2, action: 'delete' },
+      { name: 'rest', action: 'delete' }
+    ])
+
+    expect(result).toEqual({ tags: ['main-1', 'pr-1'], ids: [1, 5] })
+    expect(versions[0].decision).toEqual({
+      action: 'delete',
+      rule: 'main',
+      tag: 'main-1',
+      pattern: '^main-'
+    })
+    expect(versions[3].decision).toEqual({
+      action: 'keep',
+      rule: 'releases',
+      tag: 'v1.0.0',
+      pattern: '^v'
+    })
+  })
+
+  it('should claim all tags of a selected version', () => {
+    const versions = [createVersion(1, ['a', 'b'])]
+    const result = evaluate(versions, [
+      { name: 'delete', tags: '^a$', action: 'delete' },
+      { name: 'keep', tags: '^b$', action: 'keep' }
+    ])
+
+    // Tag b was selected through its version by the first rule, so the second rule does not see it.
+    expect(result).toEqual({ tags: ['a', 'b'], ids: [1] })
+  })
+
+  it('should spare items younger than the age threshold', () => {
+    const versions = [
+      createVersion(1, ['old'], 30),
+      createVersion(2, ['young'], 3),
+      createVersion(3, [], 30),
+      createVersion(4, [], 3)
+    ]
+    const result = evaluate(versions, [
+      { name: 'tags', olderThan: 7 * DAY, action: 'delete' },
+      { name: 'untagged', untagged: true, olderThan: 7 * DAY, action: 'delete' }
+    ])
+
+    expect(result).toEqual({ tags: ['old'], ids: [1, 3] })
+    expect(versions[1].decision).toEqual({
+      action: 'keep',
+      rule: 'tags',
+      tag: 'young',
+      detail: 'younger than the age threshold'
+    })
+  })
+
+  it('should exclude items of unknown age from the limits', () => {
+    const versions = [
+      createVersion(1, ['old'], 30),
+      createVersion(2, ['unknown'], 30),
+      createVersion(3, [], 30),
+      createVersion(4, [], 3),
+      createVersion(5, [], 30)
+    ]
+    for (const v of [versions[1], versions[4]]) {
+      v.created_at = ''
+      v.updated_at = ''
+    }
+    const result = evaluate(versions, [
+      { name: 'tags', olderThan: 7 * DAY, action: 'delete' },
+      { name: 'untagged', untagged: true, keepN: 1, action: 'delete' }
+    ])
+
+    expect(result).toEqual({ tags: ['old'], ids: [1, 3] })
+    expect(versions[1].decision).toEqual({
+      action: 'keep',
+      rule: 'tags',
+      tag: 'unknown',
+      detail: 'unknown age'
+    })
+    expect(versions[4].decision).toEqual({
+      action: 'keep',
+      rule: 'untagged',
+      detail: 'unknown age'
+    })
+  })
+
+  it('should order semantic versions by precedence', () => {
+    const versions = [
+      createVersion(1, ['1.0.0'], 1),
+      createVersion(2, ['1.0.1'], 3),
+      createVersion(3, ['1.1.0'], 2),
+      createVersion(4, ['latest'], 4)
+    ]
+    const result = evaluate(versions, [
+      { name: 'semver', semver: { keepNminor: 1 }, action: 'delete' }
+    ])
+
+    // Tags that are not semantic versions are left to later rules.
+    expect(result).toEqual({ tags: ['1.0.0', '1.0.1'], ids: [1, 2] })
+  })
+
+  it('should keep the most recent tags per group', () => {
+    const versions = [
+      createVersion(1, ['pr-1-a'], 5),
+      createVersion(2, ['pr-1-b'], 4),
+      createVersion(3, ['pr-2-a'], 3),
+      createVersion(4, ['pr-2-b'], 2),
+      createVersion(5, ['pr-2-c'], 1),
+      createVersion(6, ['latest'], 10)
+    ]
+    const result = evaluate(versions, [
+      {
+        name: 'pr',
+        keepN: 1,
+        groupBy: '^pr-(?<group>\\d+)-',
+        action: 'delete'
+      }
+    ])
+
+    // Tags outside of all groups are not selected.
+    expect(result).toEqual({
+      tags: ['pr-1-a', 'pr-2-a', 'pr-2-b'],
+      ids: [1, 3, 4]
+    })
+  })
+
+  it('should filter by type', () => {
+    const versions = [createVersion(1, ['a']), createVersion(2, ['b'])]
+    versions[1].type = 'multi-arch image'
+    const result = evaluate(versions, [
+      { name: 'multi-arch', types: ['multi-arch image'], action: 'delete' }
+    ])
+
+    expect(result).toEqual({ tags: ['b'], ids: [2] })
+  })
+
+  it('should only select untagged images without unclaimed tags', () => {
+    const parent = createVersion(1, [], 10)
+    const child = createVersion(2, ['child'], 10)
+    const untagged = createVersion(3, [], 5)
+    linkVersions(parent, child)
+    const result = evaluate(
+      [parent, child, untagged],
+      [{ name: 'untagged', untagged: true, keepN: 0, action: 'delete' }]
+    )
+
+    expect(result).toEqual({ tags: [], ids: [3] })
+  })
+
+  it('should delete children together with their parent', () => {
+    const parent = createVersion(1, ['a'])
+    const child = createVersion(2)
+    linkVersions(parent, child)
+    const result = evaluate(
+      [parent, child],
+      [{ name: 'all', action: 'delete' }]
+    )
+
+    expect(result).toEqual({ tags: ['a'], ids: [1, 2] })
+    expect(child.decision).toEqual({
+      action: 'delete',
+      rule: 'all',
+      tag: 'a',
+      inheritedFrom: parent.name
+    })
+  })
+})
@@ -0,0 +1,529 @@
+import * as core from '@actions/core'
+import { Decision, PackageVersionExt } from './models'
+import { Rule } from './policy'
+import { selectSemVerTags } from './semver'
+
+/**
+ * Provides the tags and versions of a package repository to the rule engine.
+ */
+export interface VersionSource {
+  getTags(): string[]
+  getVersion(key: string | number): PackageVersionExt | undefined
+  getVersions(): PackageVersionExt[]
+  getRoots(): Iterable<PackageVersionExt>
+}
+
+/**
+ * Filters the given array of items based on a regular expression.
+ *
+ * Used to match tags against a regular expression.
+ *
+ * @param regexStr - The regular expression string to match against the items.
+ * @param items - The array of items to filter.
+ * @returns An array of items that match the regular expression.
+ */
+export function matchItems(regexStr: string, items: string[]): string[] {
+  // Compile regular expression.
+  const regex = new RegExp(regexStr)
+  // Filter items based on regular expression.
+  return items.filter(item => regex.test(item))
+}
+
+/**
+ * Partitions the given array of items by a capture group of a regular expression.
+ *
+ * Items are grouped by the value of the named capture group `group`, or of the first capture group if there is no
+ * such named group. Items that do not match the expression are not included in any group.
+ *
+ * @param regexStr - The regular expression string with a capture group.
+ * @param items - The array of items to partition.
+ * @returns The items of each group, in their original order, by group value.
+ */
+export function groupItems(
+  regexStr: string,
+  items: string[]
+): Map<string, string[]> {
+  // The result.
+  const result = new Map<string, string[]>()
+
+  // Compile regular expression.
+  const regex = new RegExp(regexStr)
+
+  for (const item of items) {
+    const match = regex.exec(item)
+    if (!match) continue
+
+    const key = match.groups?.group ?? match[1] ?? match[0]
+    result.set(key, [...(result.get(key) ?? []), item])
+  }
+
+  return result
+}
+
+/**
+ * Logs the given items, one per line.
+ *
+ * @param items - The tags or versions to log.
+ */
+export function logItems(items: string[] | PackageVersionExt[]): void {
+  if (items.length > 0) {
+    for (const item of items) {
+      core.info(`- ${item}`)
+    }
+  } else {
+    core.info('  none')
+  }
+}
+
+/**
+ * Determines the modification date of a version.
+ *
+ * @param version - The version.
+ * @returns The `updated_at` timestamp, or the `created_at` timestamp if the former is not available, in milliseconds.
+ *   Undefined if the date is unknown.
+ */
+export function getTimestamp(
+  version: PackageVersionExt | undefined
+): number | undefined {
+  if (version == null) return undefined
+  const timestamp = Date.parse(version.updated_at || version.created_at)
+  return isNaN(timestamp) ? undefined : timestamp
+}
+
+/**
+ * Retrieves the versions reachable from the given keys.
+ *
+ * The result includes the versions for the given keys as well.
+ *
+ * @param repo - The package repository.
+ * @param key - The tags or digests for which to retrieve the reachable versions.
+ * @returns The reachable versions.
+ */
+export function getClosure(
+  repo: VersionSource,
+  key: string | Iterable<string>
+): PackageVersionExt[] {
+  // Convert key to an array.
+  const keys: Iterable<string> = typeof key === 'string' ? [key] : key
+
+  // The result.
+  const result: PackageVersionExt[] = []
+
+  // Loop over all keys.
+  for (const key0 of keys) {
+    // Get the version for the given key.
+    const version = repo.getVersion(key0)
+
+    if (!version) continue
+
+    // Add the digest of the version to the result.
+    result.push(version)
+
+    // Recursively get all reachable versions.
+    for (const child of version.children) {
+      result.push(...getClosure(repo, child.name))
+    }
+  }
+
+  return result
+}
+
+/**
+ * A set of tags and versions to keep or to delete.
+ *
+ * Adding a version adds all versions reachable from it and their tags as well, so that the integrity of multi-arch
+ * images and referrers is preserved.
+ */
+export class VersionSet {
+  tags: string[] = []
+  versions: PackageVersionExt[] = []
+  // The decision that first selected each version.
+  decisions = new Map<PackageVersionExt, Decision>()
+  repo: VersionSource
+  action: Decision['action']
+
+  constructor(repo: VersionSource, action: Decision['action']) {
+    this.repo = repo
+    this.action = action
+  }
+
+  addVersions(
+    versions: PackageVersionExt | Iterable<PackageVersionExt>,
+    rule: Omit<Decision, 'action' | 'inheritedFrom'>
+  ): this {
+    // Ensure that version is an array.
+    const versions0: Iterable<PackageVersionExt> =
+      Symbol.iterator in versions ? versions : [versions]
+
+    for (const v of versions0) {
+      const c = getClosure(this.repo, v.name)
+
+      for (const v0 of c) {
+        // Add the version to the list.
+        if (!this.versions.includes(v0)) {
+          this.versions.push(v0)
+          this.decisions.set(v0, {
+            action: this.action,
+            ...rule,
+            ...(v0 !== v ? { inheritedFrom: v.name } : {})
+          })
+        }
+
+        // Add each tag to the list of tags as well.
+        for (const t of v0.metadata.container.tags) {
+          if (!this.tags.includes(t)) this.tags.push(t)
+        }
+      }
+    }
+
+    return this
+  }
+
+  addTags(
+    tags: string | Iterable<string>,
+    rule: Omit<Decision, 'action' | 'inheritedFrom' | 'tag'>
+  ): this {
+    const tags0: Iterable<string> = typeof tags === 'string' ? [tags] : tags
+
+    for (const t of tags0) {
+      const v = this.repo.getVersion(t)
+
+      if (v) {
+        if (!this.tags.includes(t)) {
+          this.tags.push(t)
+        }
+
+        this.addVersions(v, { ...rule, tag: t })
+      }
+    }
+    return this
+  }
+}
+
+/**
+ * The tags and versions to delete.
+ */
+export interface Selection {
+  tags: string[]
+  versions: PackageVersionExt[]
+}
+
+/**
+ * Evaluates an ordered list of retention rules against a package repository.
+ *
+ * Each rule only considers the tags or untagged versions not yet selected by a previous rule. A tag or version selected
+ * both for keeping and for deletion is kept.
+ */
+export class RuleEngine {
+  // Provides access to the package repository.
+  repo: VersionSource
+
+  // Reference point in time for age thresholds.
+  now: number
+
+  // The tags and versions to keep.
+  keep: VersionSet
+
+  // The tags and versions to delete.
+  remove: VersionSet
+
+  constructor(repo: VersionSource, now = Date.now()) {
+    this.repo = repo
+    this.now = now
+    this.keep = new VersionSet(repo, 'keep')
+    this.remove = new VersionSet(repo, 'delete')
+  }
+
+  /**
+   * Checks whether a version is younger than the given age threshold.
+   *
+   * The age of a version is determined by its `updated_at` timestamp, or its `created_at` timestamp if the former is
+   * not available. Always returns false if no age threshold is given or the age is unknown.
+   *
+   * @param version - The version to check.
+   * @param olderThan - The age threshold in milliseconds.
+   * @returns True if the version is younger than the threshold, false otherwise.
+   */
+  isRecent(
+    version: PackageVersionExt | undefined,
+    olderThan: number | undefined
+  ): boolean {
+    const timestamp = getTimestamp(version)
+    if (olderThan == null || timestamp == null) return false
+
+    return timestamp > this.now - olderThan
+  }
+
+  /**
+   * Returns the tags not yet selected by any rule.
+   */
+  getUnclaimedTags(): string[] {
+    return this.repo
+      .getTags()
+      .filter(
+        tag => !this.remove.tags.includes(tag) && !this.keep.tags.includes(tag)
+      )
+  }
+
+  /**
+   * Splits the selected items of a rule that deletes into those to keep and those to delete.
+   *
+   * The first `keepN` items are kept, as are those younger than `olderThan`. Without either limit, all are deleted.
+   * Items of unknown age are excluded from the limits and kept.
+   *
+   * @param rule - The rule.
+   * @param items - The selected items, most recent first.
+   * @param getVersion - Returns the version of an item.
+   * @returns The items to keep within the window, to keep for their age, to keep for their unknown age, and to delete.
+   */
+  splitByRecency<T>(
+    rule: Rule,
+    items: T[],
+    getVersion: (item: T) => PackageVersionExt | undefined
+  ): { window: T[]; young: T[]; unknown: T[]; old: T[] } {
+    const limited = rule.keepN != null || rule.olderThan != null
+    const unknown = limited
+      ? items.filter(i => getTimestamp(getVersion(i)) == null)
+      : []
+    const known = items.filter(i => !unknown.includes(i))
+
+    const keepN = rule.keepN ?? 0
+    const window = known.slice(0, keepN)
+    const rest = known.slice(keepN)
+    const young = rest.filter(i => this.isRecent(getVersion(i), rule.olderThan))
+    const old = rest.filter(i => !young.includes(i))
+
+    return { window, young, unknown, old }
+  }
+
+  /**
+   * Keeps the tags of unknown age selected by a rule that deletes, if any.
+   *
+   * @param rule - The rule.
+   * @param tags - The tags of unknown age.
+   */
+  keepUnknownAgeTags(rule: Rule, tags: string[]): void {
+    if (tags.length === 0) return
+
+    core.info('Keeping tags of unknown age:')
+    logItems(tags)
+    this.keep.addTags(tags, {
+      rule: rule.name,
+      ...(rule.tags != null ? { pattern: rule.tags } : {}),
+      detail: 'unknown age'
+    })
+  }
+
+  /**
+   * Applies a rule that selects tags.
+   *
+   * @param rule - The rule to apply.
+   */
+  applyTagRule(rule: Rule): void {
+    let tags = this.getUnclaimedTags()
+    if (rule.tags != null) {
+      tags = matchItems(rule.tags, tags)
+    }
+    if (rule.tagList != null) {
+      const tagList = rule.tagList
+      tags = tags.filter(t => tagList.includes(t))
+    }
+    if (rule.types != null) {
+      const types = rule.types
+      tags = tags.filter(t => {
+        const v = this.repo.getVersion(t)
+        return v != null && types.includes(v.type)
+      })
+    }
+
+    const pattern = rule.tags != null ? { pattern: rule.tags } : {}
+
+    if (rule.action === 'keep') {
+      core.info('Keeping tags:')
+      logItems(tags)
+      this.keep.addTags(tags, { rule: rule.name, ...pattern })
+      return
+    }
+
+    if (rule.semver != null) {
+      // Semantic versions are ordered by precedence. Other tags fall through to the following rules.
+      const selected = selectSemVerTags(tags, rule.semver)
+      const { young, unknown, old } = this.splitByRecency(
+        { ...rule, keepN: undefined },
+        selected.delete,
+        t => this.repo.getVersion(t)
+      )
+
+      core.info('Keeping semantic version tags:')
+      logItems(selected.keep)
+      this.keep.addTags(selected.keep, { rule: rule.name, ...pattern })
+      this.keepUnknownAgeTags(rule, unknown)
+
+      if (rule.olderThan != null) {
+        core.info(
+          'Keeping semantic version tags younger than the age threshold:'
+        )
+        logItems(young)
+        this.keep.addTags(young, {
+          rule: rule.name,
+          ...pattern,
+          detail: 'younger than the age threshold'
+        })
+      }
+
+      core.info('Deleting semantic version tags:')
+      logItems(old)
+      this.remove.addTags(old, { rule: rule.name, ...pattern })
+      return
+    }
+
+    // Order by modification date, most recent first.
+    const sorted = tags.sort((x: string, y: string) => {
+      return (
+        (getTimestamp(this.repo.getVersion(y)) ?? 0) -
+        (getTimestamp(this.repo.getVersion(x)) ?? 0)
+      )
+    })
+
+    // Apply the limits within each group independently. Tags outside of all groups fall through to the following rules.
+    const groups =
+      rule.groupBy != null
+        ? Array.from(groupItems(rule.groupBy, sorted).values())
+        : [sorted]
+
+    const window: string[] = []
+    const young: string[] = []
+    const unknown: string[] = []
+    const old: string[] = []
+    for (const group of groups) {
+      const split = this.splitByRecency(rule, group, t =>
+        this.repo.getVersion(t)
+      )
+      window.push(...split.window)
+      young.push(...split.young)
+      unknown.push(...split.unknown)
+      old.push(...split.old)
+    }
+    this.keepUnknownAgeTags(rule, unknown)
+
+    if (rule.keepN != null) {
+      core.info(
+        `Keeping the ${rule.keepN} most recent tags${rule.groupBy != null ? ' per group' : ''}:`
+      )
+      logItems(window)
+      this.keep.addTags(window, { rule: rule.name, ...pattern })
+    }
+
+    if (rule.olderThan != null) {
+      core.info('Keeping tags younger than the age threshold:')
+      logItems(young)
+      this.keep.addTags(young, {
+        rule: rule.name,
+        ...pattern,
+        detail: 'younger than the age threshold'
+      })
+    }
+
+    core.info('Deleting tags:')
+    logItems(old)
+    this.remove.addTags(old, { rule: rule.name, ...pattern })
+  }
+
+  /**
+   * Applies a rule that selects untagged versions.
+   *
+   * Only root versions are considered to preserve the integrity of all relationships between image manifests. Roots
+   * with tags not yet selected by any rule are left to the rules for tags.
+   *
+   * @param rule - The rule to apply.
+   */
+  applyUntaggedRule(rule: Rule): void {
+    const unclaimed = this.getUnclaimedTags()
+
+    const versions: PackageVersionExt[] = Array.from(this.repo.getRoots())
+      .filter(v => !this.remove.versions.includes(v))
+      .filter(v => !this.keep.versions.includes(v))
+      .filter(v =>
+        rule.types != null ? rule.types.includes(v.type) : !v.is_attestation
+      )
+      .filter(v =>
+        getClosure(this.repo, v.name).every(v0 =>
+          v0.metadata.container.tags.every(t => !unclaimed.includes(t))
+        )
+      )
+      .sort((x: PackageVersionExt, y: PackageVersionExt) => {
+        return (getTimestamp(y) ?? 0) - (getTimestamp(x) ?? 0)
+      })
+
+    if (rule.action === 'keep') {
+      core.info('Keeping untagged images:')
+      logItems(versions)
+      this.keep.addVersions(versions, { rule: rule.name })
+      return
+    }
+
+    const { window, young, unknown, old } = this.splitByRecency(
+      rule,
+      versions,
+      v => v
+    )
+
+    if (unknown.length > 0) {
+      core.info('Keeping untagged images of unknown age:')
+      logItems(unknown)
+      this.keep.addVersions(unknown, { rule: rule.name, detail: 'unknown age' })
+    }
+
+    if (rule.keepN != null) {
+      core.info(`Keeping the ${rule.keepN} most recent untagged images:`)
+      logItems(window)
+      this.keep.addVersions(window, { rule: rule.name })
+    }
+
+    if (rule.olderThan != null) {
+      core.info('Keeping untagged images younger than the age threshold:')
+      logItems(young)
+      this.keep.addVersions(young, {
+        rule: rule.name,
+        detail: 'younger than the age threshold'
+      })
+    }
+
+    core.info('Deleting untagged images:')
+    logItems(old)
+    this.remove.addVersions(old, { rule: rule.name })
+  }
+
+  /**
+   * Evaluates the rules in order and records the decision for every version.
+   *
+   * Tags and versions not selected by any rule are kept.
+   *
+   * @param rules - The ordered list of rules.
+   * @returns The tags and versions to delete.
+   */
+  evaluate(rules: Rule[]): Selection {
+    for (const rule of rules) {
+      core.startGroup(`Apply rule ${rule.name}.`)
+      if (rule.untagged) {
+        this.applyUntaggedRule(rule)
+      } else {
+        this.applyTagRule(rule)
+      }
+      core.endGroup()
+    }
+
+    const tags = this.remove.tags.filter(tag => !this.keep.tags.includes(tag))
+    const versions = this.remove.versions.filter(
+      v => !this.keep.versions.includes(v)
+    )
+
+    // Record the decision for every version. Keeping trumps deleting.
+    for (const v of this.repo.getVersions()) {
+      v.decision = this.keep.decisions.get(v) ??
+        this.remove.decisions.get(v) ?? { action: 'keep', rule: 'not selected' }
+    }
+
+    return { tags, versions }
+  }
+}
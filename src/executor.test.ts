@@ -0,0 +1,204 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import {
+  DeletionExecutor,
+  DeletionItem,
+  DeletionJournal,
+  ExecutorOptions,
+  formatFailures,
+  isTransientError
+} from './executor'
+
+const version = (key: string, dependsOn?: string): DeletionItem => ({
+  kind: 'version',
+  key,
+  digest: key,
+  dependsOn
+})
+
+const createExecutor = (
+  options: Partial<ExecutorOptions> = {}
+): DeletionExecutor =>
+  new DeletionExecutor({
+    concurrency: 2,
+    failFast: false,
+    retries: 2,
+    retryDelay: 0,
+    ...options
+  })
+
+describe('isTransientError', () => {
+  it('should consider all but client errors transient', () => {
+    expect(isTransientError({ status: 502 })).toBe(true)
+    expect(isTransientError({ response: { status: 503 } })).toBe(true)
+    expect(
+      isTransientError(Object.assign(new Error(), { code: 'ECONNRESET' }))
+    ).toBe(true)
+    expect(isTransientError(new Error('failed'))).toBe(true)
+    expect(isTransientError({ status: 404 })).toBe(false)
+    expect(isTransientError({ response: { status: 403 } })).toBe(false)
+  })
+})
+
+describe('DeletionExecutor', () => {
+  it('should continue after failures and report them', async () => {
+    const executor = createExecutor()
+    const deleted: string[] = []
+
+    await executor.run([version('a'), version('b'), version('c')], async i => {
+      if (i.key === 'b') throw new Error('forbidden')
+      deleted.push(i.key)
+    })
+
+    expect(deleted).toEqual(['a', 'c'])
+    expect(executor.report.deleted.map(i => i.key)).toEqual(['a', 'c'])
+    expect(formatFailures(executor.report)).toEqual(['version b: forbidden'])
+  })
+
+  it('should stop after the first failure in fail-fast mode', async () => {
+    const executor = createExecutor({ concurrency: 1, failFast: true })
+
+    await executor.run([version('a'), version('b'), version('c')], async i => {
+      if (i.key === 'a') throw new Error('forbidden')
+    })
+
+    expect(executor.report.failed.map(i => i.key)).toEqual(['a'])
+    expect(executor.report.pending.map(i => i.key)).toEqual(['b', 'c'])
+  })
+
+  it('should retry transient errors', async () => {
+    const executor = createExecutor()
+    let calls = 0
+
+    await executor.run([version('a')], async () => {
+      if (++calls < 3) throw Object.assign(new Error('busy'), { status: 503 })
+    })
+
+    expect(calls).toBe(3)
+    expect(executor.report.deleted).toHaveLength(1)
+  })
+
+  it('should not retry client errors', async () => {
+    const executor = createExecutor()
+    const fn = jest.fn(async () => {
+      throw Object.assign(new Error('forbidden'), { status: 403 })
+    })
+
+    await executor.run([version('a')], fn)
+
+    expect(fn).toHaveBeenCalledTimes(1)
+    expect(formatFailures(executor.report)).toEqual(['version a: forbidden'])
+  })
+
+  it('should delete dependencies first and skip dependents of failures', async () => {
+    const executor = createExecutor({ concurrency: 4 })
+    const deleted: string[] = []
+
+    await executor.run(
+      [
+        version('child', 'parent'),
+        version('parent'),
+        version('other-child', 'other'),
+        version('other')
+      ],
+      async i => {
+        if (i.key === 'other') throw new Error('forbidden')
+        deleted.push(i.key)
+      }
+    )
+
+    expect(deleted).toEqual(['parent', 'child'])
+    expect(formatFailures(executor.report)).toEqual([
+      'version other: forbidden',
+      'version other-child: other could not be deleted'
+    ])
+  })
+})
+
+describe('DeletionJournal', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'journal-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should record the outcome of each deletion', async () => {
+    const filePath = path.join(dir, 'nested', 'journal.jsonl')
+    const tag: DeletionItem = { kind: 'tag', key: 'v1', digest: 'sha256:1' }
+
+    const executor = createExecutor({
+      concurrency: 1,
+      journal: new DeletionJournal(filePath, 'owner/package')
+    })
+    await executor.run([version('a'), version('b'), tag], async i => {
+      if (i.key === 'b') throw new Error('forbidden')
+    })
+
+    const entries = fs
+      .readFileSync(filePath, 'utf-8')
+      .trim()
+      .split('\n')
+      .map(line => JSON.parse(line))
+    expect(
+      entries.map(({ time: _time, ...entry }: Record<string, unknown>) => entry)
+    ).toEqual([
+      {
+        package: 'owner/package',
+        kind: 'version',
+        key: 'a',
+        digest: 'a',
+        status: 'deleted'
+      },
+      {
+        package: 'owner/package',
+        kind: 'version',
+        key: 'b',
+        digest: 'b',
+        status: 'failed',
+        error: 'forbidden'
+      },
+      {
+        package: 'owner/package',
+        kind: 'tag',
+        key: 'v1',
+        digest: 'sha256:1',
+        status: 'deleted'
+      }
+    ])
+  })
+
+  it('should skip items deleted by a previous run', async () => {
+    const filePath = path.join(dir, 'journal.jsonl')
+    const tag: DeletionItem = { kind: 'tag', key: 'v1', digest: 'sha256:1' }
+
+    const first = createExecutor({
+      journal: new DeletionJournal(filePath, 'owner/package')
+    })
+    await first.run([version('a'), version('b'), tag], async i => {
+      if (i.key === 'b') throw new Error('forbidden')
+    })
+
+    const fn = jest.fn(async (_item: DeletionItem) => {})
+    const second = createExecutor({
+      journal: new DeletionJournal(filePath, 'owner/package')
+    })
+    // The tag was pushed again for another version.
+    await second.run(
+      [version('a'), version('b'), { ...tag, digest: 'sha256:2' }],
+      fn
+    )
+
+    expect(second.report.resumed.map(i => i.key)).toEqual(['a'])
+    expect(fn.mock.calls.map(([i]) => i.key)).toEqual(['b', 'v1'])
+
+    // Other packages are not affected.
+    expect(
+      new DeletionJournal(filePath, 'owner/other').isDone(version('a'))
+    ).toBe(false)
+  })
+})
@@ -0,0 +1,283 @@
+import * as core from '@actions/core'
+import fs from 'fs'
+import path from 'path'
+import { mapWithConcurrency } from './utils'
+
+/**
+ * A tag or version to delete.
+ */
+export interface DeletionItem {
+  // Whether a tag or a version is deleted.
+  kind: 'tag' | 'version'
+  // The tag, or the digest of the version.
+  key: string
+  // The digest of the version, for tags the version the tag is attached to.
+  digest: string
+  // The key of an item that must be deleted first, e.g. the parent of a version.
+  dependsOn?: string
+}
+
+/**
+ * An item that could not be deleted.
+ */
+export interface DeletionFailure extends DeletionItem {
+  // The error message.
+  error: string
+}
+
+/**
+ * The outcome of deleting a list of items.
+ */
+export interface DeletionReport {
+  // Items deleted in this run.
+  deleted: DeletionItem[]
+  // Items skipped since the journal records them as deleted by a previous run.
+  resumed: DeletionItem[]
+  // Items that could not be deleted.
+  failed: DeletionFailure[]
+  // Items not attempted since a previous item failed in fail-fast mode.
+  pending: DeletionItem[]
+}
+
+/**
+ * Options of the deletion executor.
+ */
+export interface ExecutorOptions {
+  // The maximum number of concurrent deletions.
+  concurrency: number
+  // Whether to stop after the first failure.
+  failFast: boolean
+  // The number of retries for transient errors.
+  retries: number
+  // The base delay in milliseconds between retries, doubled for each retry.
+  retryDelay: number
+  // The journal to record deletions in, if any.
+  journal?: DeletionJournal
+}
+
+/**
+ * Checks if an error may be transient, i.e. if the deletion may succeed when retried.
+ *
+ * Client errors such as a missing permission or an unknown version are final. All other errors, e.g. server and
+ * network errors or a step of a tag deletion that did not complete, may be transient.
+ *
+ * @param error - The error thrown by Octokit, axios or a package client.
+ * @returns Whether the error may be transient.
+ */
+export function isTransientError(error: unknown): boolean {
+  // Octokit errors carry `status`, axios errors `response.status`.
+  const e = error as { status?: number; response?: { status?: number } }
+  const status = e?.status ?? e?.response?.status
+  return status == null || status < 400 || status >= 500
+}
+
+/**
+ * Records the deletions of a package in a file, one JSON object per line, so that an interrupted cleanup can be resumed.
+ *
+ * Tags are recorded with the digest of their version, since a tag may be pushed again after it has been deleted.
+ */
+export class DeletionJournal {
+  // The path of the journal file.
+  filePath: string
+
+  // The package the journal entries are recorded for, e.g. `owner/package`.
+  scope: string
+
+  // The keys of the items deleted by previous runs.
+  done = new Set<string>()
+
+  constructor(filePath: string, scope: string) {
+    this.filePath = filePath
+    this.scope = scope
+
+    if (fs.existsSync(filePath)) {
+      for (const line of fs.readFileSync(filePath, 'utf-8').split('\n')) {
+        if (!line.trim()) continue
+        try {
+          const entry = JSON.parse(line)
+          if (entry.package === scope && entry.status === 'deleted') {
+            this.done.add(this.getKey(entry))
+          }
+        } catch {
+          core.debug(`Ignoring invalid journal entry ${line}.`)
+        }
+      }
+    }
+  }
+
+  /**
+   * Returns the key identifying an item in the journal.
+   */
+  private getKey(item: Pick<DeletionItem, 'kind' | 'key' | 'digest'>): string {
+    return `${item.kind} ${item.key} ${item.digest}`
+  }
+
+  /**
+   * Checks if an item has been deleted by a previous run.
+   *
+   * @param item - The item to check.
+   * @returns Whether the item has been deleted.
+   */
+  isDone(item: DeletionItem): boolean {
+    return this.done.has(this.getKey(item))
+  }
+
+  /**
+   * Appends the outcome of a deletion to the journal.
+   *
+   * @param item - The item.
+   * @param error - The error message if the deletion failed.
+   */
+  record(item: DeletionItem, error?: string): void {
+    const entry = {
+      time: new Date().toISOString(),
+      package: this.scope,
+      kind: item.kind,
+      key: item.key,
+      digest: item.digest,
+      status: error == null ? 'deleted' : 'failed',
+      ...(error != null ? { error } : {})
+    }
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true })
+    fs.appendFileSync(this.filePath, `${JSON.stringify(entry)}\n`, 'utf-8')
+    if (error == null) this.done.add(this.getKey(item))
+  }
+}
+
+/**
+ * Deletes tags and versions, retrying transient errors and continuing after failures unless in fail-fast mode.
+ *
+ * Items that depend on another item are only deleted once that item has been deleted, and fail if it could not be.
+ * The outcome of all runs is collected in `report`.
+ */
+export class DeletionExecutor {
+  // The executor options.
+  options: ExecutorOptions
+
+  // The outcome of all deletions so far.
+  report: DeletionReport = { deleted: [], resumed: [], failed: [], pending: [] }
+
+  constructor(options: ExecutorOptions) {
+    this.options = options
+  }
+
+  /**
+   * Whether a failure stops any further deletions.
+   */
+  get stopped(): boolean {
+    return this.options.failFast && this.report.failed.length > 0
+  }
+
+  /**
+   * Deletes an item, retrying transient errors.
+   *
+   * @param item - The item to delete.
+   * @param fn - The function deleting the item.
+   */
+  private async attempt(
+    item: DeletionItem,
+    fn: (item: DeletionItem) => Promise<void>
+  ): Promise<void> {
+    for (let retry = 0; ; retry++) {
+      try {
+        await fn(item)
+        return
+      } catch (error) {
+        if (retry >= this.options.retries || !isTransientError(error)) {
+          throw error
+        }
+        const delay = this.options.retryDelay * 2 ** retry
+        core.warning(
+          `Deleting ${item.kind} ${item.key} failed, retrying in ${delay} ms: ${error}`
+        )
+        await new Promise(resolve => setTimeout(resolve, delay))
+      }
+    }
+  }
+
+  /**
+   * Deletes the given items.
+   *
+   * @param items - The items to delete.
+   * @param fn - The function deleting an item.
+   * @param concurrency - The maximum number of concurrent deletions, the configured one by default.
+   * @returns A Promise that resolves when all items have been processed.
+   */
+  async run(
+    items: DeletionItem[],
+    fn: (item: DeletionItem) => Promise<void>,
+    concurrency = this.options.concurrency
+  ): Promise<void> {
+    // Arrange the items in levels, such that each item comes after the item it depends on.
+    const byKey = new Map(items.map(item => [item.key, item]))
+    const getLevel = (item: DeletionItem, seen = new Set<string>()): number => {
+      const dependency =
+        item.dependsOn != null ? byKey.get(item.dependsOn) : undefined
+      // Guard against cyclic dependencies.
+      if (dependency == null || seen.has(item.key)) return 0
+      seen.add(item.key)
+      return getLevel(dependency, seen) + 1
+    }
+    const levels: DeletionItem[][] = []
+    for (const item of items) {
+      const level = getLevel(item)
+      levels[level] ??= []
+      levels[level].push(item)
+    }
+
+    const failed = new Set<string>()
+    let started = 0
+    for (const level of levels.filter(l => l != null)) {
+      await mapWithConcurrency(level, concurrency, async item => {
+        if (this.stopped) {
+          this.report.pending.push(item)
+          return
+        }
+
+        const progress = `(${++started}/${items.length})`
+        if (this.options.journal?.isDone(item)) {
+          core.info(
+            `${progress} Skipping ${item.kind} ${item.key}, deleted by a previous run.`
+          )
+          this.report.resumed.push(item)
+          return
+        }
+
+        let error: string | undefined
+        if (item.dependsOn != null && failed.has(item.dependsOn)) {
+          error = `${item.dependsOn} could not be deleted`
+        } else {
+          core.info(`${progress} Deleting ${item.kind} ${item.key}.`)
+          try {
+            await this.attempt(item, fn)
+          } catch (e) {
+            error = e instanceof Error ? e.message : `${e}`
+          }
+        }
+
+        if (error == null) {
+          this.report.deleted.push(item)
+        } else {
+          core.error(`Failed to delete ${item.kind} ${item.key}: ${error}`)
+          failed.add(item.key)
+          this.report.failed.push({ ...item, error })
+        }
+        this.options.journal?.record(item, error)
+      })
+    }
+  }
+}
+
+/**
+ * Formats the failures of a deletion report for display.
+ *
+ * @param report - The deletion report.
+ * @returns A human-readable description of each failure.
+ */
+export function formatFailures(report: DeletionReport): string[] {
+  return report.failed.map(f =>
+    f.kind === 'tag'
+      ? `tag ${f.key} (${f.digest}): ${f.error}`
+      : `version ${f.key}: ${f.error}`
+  )
+}
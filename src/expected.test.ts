@@ -0,0 +1,104 @@
+import {
+  diffExpected,
+  EXIT_MISSING,
+  EXIT_UNEXPECTED,
+  getExitCode,
+  parseExpectedEntries,
+  renderDiff
+} from './expected'
+import { PackageVersionExt, PackageVersionExtModel } from './models'
+import { linkVersions } from './tree'
+
+const digest = (c: string): string => `sha256:${c.repeat(64)}`
+
+function version(
+  id: number,
+  name: string,
+  tags: string[],
+  type: PackageVersionExt['type']
+): PackageVersionExt {
+  const v = new PackageVersionExtModel(
+    {
+      id,
+      name,
+      url: 'https://example.com',
+      package_html_url: 'https://example.com',
+      created_at: '2024-01-01T00:00:00Z',
+      updated_at: '2024-01-01T00:00:00Z',
+      html_url: 'https://example.com',
+      metadata: { package_type: 'container', container: { tags } }
+    },
+    { mediaType: 'application/vnd.oci.image.manifest.v1+json' }
+  )
+  v.type = type
+  return v
+}
+
+describe('parseExpectedEntries', () => {
+  it('should keep the comments of the lines', () => {
+    expect(
+      parseExpectedEntries(
+        `// header\n${digest('a')} // latest multi-arch image\n\n  ${digest('b')}  \n`
+      )
+    ).toEqual([
+      { value: digest('a'), comment: 'latest multi-arch image' },
+      { value: digest('b') }
+    ])
+  })
+})
+
+describe('diffExpected', () => {
+  const index = version(2, digest('b'), ['latest', 'v1'], 'multi-arch image')
+  const image = version(1, digest('a'), [], 'single-arch image')
+  linkVersions(index, image)
+  const repo = {
+    getDigests: () => [digest('a'), digest('b')],
+    getTags: () => ['latest', 'v1'],
+    getRoots: () => new Set([index])
+  }
+
+  it('should report no differences for the expected contents', () => {
+    const diff = diffExpected(
+      repo,
+      [{ value: digest('b') }, { value: digest('a') }],
+      [{ value: 'v1' }, { value: 'latest' }]
+    )
+
+    expect(diff).toEqual({
+      missingDigests: [],
+      missingTags: [],
+      unexpectedDigests: [],
+      unexpectedTags: []
+    })
+    expect(getExitCode(diff)).toBe(0)
+  })
+
+  it('should report missing and unexpected digests and tags', () => {
+    const diff = diffExpected(
+      repo,
+      [{ value: digest('b') }, { value: digest('c'), comment: 'v2 image' }],
+      [{ value: 'latest' }, { value: 'v2' }]
+    )
+
+    expect(diff).toEqual({
+      missingDigests: [{ value: digest('c'), comment: 'v2 image' }],
+      missingTags: [{ value: 'v2' }],
+      unexpectedDigests: [digest('a')],
+      unexpectedTags: ['v1']
+    })
+    expect(getExitCode(diff)).toBe(EXIT_MISSING | EXIT_UNEXPECTED)
+    expect(getExitCode({ ...diff, missingDigests: [], missingTags: [] })).toBe(
+      EXIT_UNEXPECTED
+    )
+
+    expect(renderDiff(repo, diff)).toEqual([
+      'Actual contents, unexpected digests and tags marked with +:',
+      `  ${digest('b')} multi-arch image (latest, +v1)`,
+      `+  └─${digest('a')} single-arch image`,
+      'Missing digests:',
+      `- ${digest('c')} // v2 image`,
+      'Missing tags:',
+      '- v2'
+    ])
+  })
+})
@@ -0,0 +1,229 @@
+import { getClosure, VersionSource } from './engine'
+import type { PackageRepo } from './github-package'
+import { PackageVersionExt } from './models'
+import { renderTree, visit } from './tree'
+
+// Exit code of the validation when expected digests or tags are missing from the package.
+export const EXIT_MISSING = 2
+
+// Exit code of the validation when the package contains digests or tags that are not expected. Combined with
+// EXIT_MISSING if both occur.
+export const EXIT_UNEXPECTED = 4
+
+/**
+ * The contents of the `expected-digests` and `expected-tags` files of a test scenario.
+ */
+export interface ExpectedFiles {
+  // One digest per line.
+  digests: string
+  // One tag per line.
+  tags: string
+}
+
+/**
+ * A line of an `expected-digests` or `expected-tags` file.
+ */
+export interface ExpectedEntry {
+  // The digest or tag.
+  value: string
+  // The comment of the line, if any.
+  comment?: string
+}
+
+/**
+ * The differences between the expected and the actual contents of a package.
+ */
+export interface ExpectedDiff {
+  // The expected digests not found in the package.
+  missingDigests: ExpectedEntry[]
+  // The expected tags not found in the package.
+  missingTags: ExpectedEntry[]
+  // The digests in the package that are not expected.
+  unexpectedDigests: string[]
+  // The tags in the package that are not expected.
+  unexpectedTags: string[]
+}
+
+/**
+ * Parses an `expected-digests` or `expected-tags` file, keeping the comments.
+ *
+ * Everything after `//` on a line is a comment. Empty lines are ignored.
+ *
+ * @param text - The contents of the file.
+ * @returns The entries, in the order of the file.
+ */
+export function parseExpectedEntries(text: string): ExpectedEntry[] {
+  const result: ExpectedEntry[] = []
+  for (const line of text.split('\n')) {
+    // Split off the comment, maybe, and trim whitespace.
+    const index = line.indexOf('//')
+    const value = (index >= 0 ? line.substring(0, index) : line).trim()
+
+    // Ignore empty lines.
+    if (value.length <= 0) continue
+
+    const comment = index >= 0 ? line.substring(index + 2).trim() : ''
+    result.push(comment.length > 0 ? { value, comment } : { value })
+  }
+  return result
+}
+
+/**
+ * Parses an `expected-digests` or `expected-tags` file.
+ *
+ * @param text - The contents of the file.
+ * @returns The digests or tags, in the order of the file.
+ */
+export function parseExpected(text: string): string[] {
+  return parseExpectedEntries(text).map(entry => entry.value)
+}
+
+/**
+ * Describes a version for the comment of its line, e.g. `latest multi-arch image` or
+ * `untagged single-arch image, child of sha256:...`.
+ */
+function describeVersion(version: PackageVersionExt): string {
+  const tags = version.metadata.container.tags
+  let description = `${tags.length > 0 ? tags.join(', ') : 'untagged'} ${version.type}`
+  if (version.parent) {
+    description += `, child of ${version.parent.name}`
+  }
+  return description
+}
+
+/**
+ * Formats the expected files for the current contents of a package.
+ *
+ * The versions are listed tree by tree, from the oldest root to the newest, each root followed by its descendants.
+ *
+ * @param repo - The package repository, with the versions loaded.
+ * @param tag - Restricts the files to the closure of the version with this tag, i.e. the version, its children and its
+ *   referrers.
+ * @returns The contents of the expected files.
+ * @throws An error if the tag is not found.
+ */
+export function formatExpected(
+  repo: VersionSource,
+  tag?: string
+): ExpectedFiles {
+  const versions: PackageVersionExt[] = []
+  if (tag != null) {
+    if (!repo.getVersion(tag)) {
+      throw new Error(`Tag ${tag} not found in the package`)
+    }
+    versions.push(...getClosure(repo, tag))
+  } else {
+    const roots = [...repo.getRoots()].sort((x, y) => x.id - y.id)
+    for (const root of roots) {
+      visit(root, v => {
+        versions.push(v)
+      })
+    }
+  }
+
+  const digests: string[] = []
+  const tags: string[] = []
+  for (const version of versions) {
+    digests.push(`${version.name} // ${describeVersion(version)}\n`)
+    for (const t of version.metadata.container.tags) {
+      tags.push(`${t} // ${version.type} ${version.name}\n`)
+    }
+  }
+
+  return { digests: digests.join(''), tags: tags.join('') }
+}
+
+/**
+ * Compares the contents of a package with the expected digests and tags.
+ *
+ * @param repo - The package repository, with the versions loaded.
+ * @param expectedDigests - The entries of the `expected-digests` file.
+ * @param expectedTags - The entries of the `expected-tags` file.
+ * @returns The differences, empty if the package is as expected.
+ */
+export function diffExpected(
+  repo: Pick<PackageRepo, 'getDigests' | 'getTags'>,
+  expectedDigests: ExpectedEntry[],
+  expectedTags: ExpectedEntry[]
+): ExpectedDiff {
+  const digests = new Set(repo.getDigests())
+  const tags = new Set(repo.getTags(true))
+  const digestsExpected = new Set(expectedDigests.map(entry => entry.value))
+  const tagsExpected = new Set(expectedTags.map(entry => entry.value))
+
+  return {
+    missingDigests: expectedDigests.filter(entry => !digests.has(entry.value)),
+    missingTags: expectedTags.filter(entry => !tags.has(entry.value)),
+    unexpectedDigests: [...digests].filter(d => !digestsExpected.has(d)).sort(),
+    unexpectedTags: [...tags].filter(t => !tagsExpected.has(t)).sort()
+  }
+}
+
+/**
+ * Determines the exit code of the validation.
+ *
+ * @param diff - The differences between the expected and the actual contents.
+ * @returns 0 if there are no differences, else a combination of EXIT_MISSING and EXIT_UNEXPECTED.
+ */
+export function getExitCode(diff: ExpectedDiff): number {
+  let code = 0
+  if (diff.missingDigests.length > 0 || diff.missingTags.length > 0) {
+    code |= EXIT_MISSING
+  }
+  if (diff.unexpectedDigests.length > 0 || diff.unexpectedTags.length > 0) {
+    code |= EXIT_UNEXPECTED
+  }
+  return code
+}
+
+/**
+ * Renders the differences between the expected and the actual contents of a package.
+ *
+ * The actual contents are rendered as trees, each version annotated with its type and tags. Unexpected versions and
+ * tags are marked with `+`. The expected digests and tags that are missing follow, with the comments of their lines.
+ *
+ * @param repo - The package repository, with the versions loaded.
+ * @param diff - The differences between the expected and the actual contents.
+ * @returns The lines of the report.
+ */
+export function renderDiff(
+  repo: Pick<PackageRepo, 'getRoots'>,
+  diff: ExpectedDiff
+): string[] {
+  const unexpectedDigests = new Set(diff.unexpectedDigests)
+  const unexpectedTags = new Set(diff.unexpectedTags)
+  const lines: string[] = [
+    'Actual contents, unexpected digests and tags marked with +:'
+  ]
+
+  const roots = [...repo.getRoots()].sort((x, y) => x.id - y.id)
+  for (const root of roots) {
+    renderTree<PackageVersionExt>(
+      root,
+      v => v.children,
+      (v, prefix) => {
+        const marker = unexpectedDigests.has(v.name) ? '+' : ' '
+        const tags = v.metadata.container.tags.map(t =>
+          unexpectedTags.has(t) ? `+${t}` : t
+        )
+        lines.push(
+          `${marker} ${prefix}${v.name} ${v.type}${tags.length > 0 ? ` (${tags.join(', ')})` : ''}`
+        )
+      }
+    )
+  }
+
+  const renderMissing = (title: string, entries: ExpectedEntry[]): void => {
+    if (entries.length <= 0) return
+    lines.push(title)
+    for (const entry of entries) {
+      lines.push(
+        `- ${entry.value}${entry.comment != null ? ` // ${entry.comment}` : ''}`
+      )
+    }
+  }
+  renderMissing('Missing digests:', diff.missingDigests)
+  renderMissing('Missing tags:', diff.missingTags)
+
+  return lines
+}
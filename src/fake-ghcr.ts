@@ -0,0 +1,641 @@
+import axios, { AxiosInstance } from 'axios'
+import fs from 'fs'
+import http from 'http'
+import { AddressInfo } from 'net'
+import { FixtureVersion } from './fixture'
+import { sha256 } from './utils'
+
+/**
+ * A manifest stored in the fake registry.
+ */
+interface FakeManifest {
+  // The media type, as sent in the `Content-Type` header when the manifest was pushed.
+  mediaType: string
+  // The raw manifest, whose digest identifies it.
+  content: string
+}
+
+/**
+ * A package version of the fake Packages API.
+ */
+interface FakeVersion {
+  id: number
+  // The digest of the manifest.
+  name: string
+  tags: string[]
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * A container package, i.e. a repository of the fake registry.
+ */
+interface FakePackage {
+  // The versions in the order they were pushed.
+  versions: FakeVersion[]
+  // The manifests by digest.
+  manifests: Map<string, FakeManifest>
+}
+
+/**
+ * An image of the upstream catalogue, e.g. `busybox:1.32-uclibc`.
+ */
+interface UpstreamImage {
+  // The upstream tag, for reference only.
+  name: string
+  // The digest of the single-arch image or the multi-arch manifest list.
+  digest: string
+  // The platform of a single-arch image, e.g. `linux/arm/v7`.
+  platform?: string
+  // The images of a multi-arch manifest list.
+  manifests?: Array<{ digest: string; platform: string }>
+}
+
+/**
+ * Loads a catalogue of upstream images and synthesizes their manifests.
+ *
+ * The catalogue only records the structure of the images, i.e. the platforms of the images of each multi-arch manifest
+ * list. The synthesized manifests are keyed by the upstream digests, which are not the digests of the synthesized
+ * content. Since images are copied with their digests, the manifests are only ever looked up by these keys.
+ *
+ * @param filePath - The path of the JSON catalogue.
+ * @returns The manifests by digest.
+ */
+export function loadUpstreamManifests(
+  filePath: string
+): Map<string, FakeManifest> {
+  const images = JSON.parse(
+    fs.readFileSync(filePath, 'utf-8')
+  ) as UpstreamImage[]
+  const manifests = new Map<string, FakeManifest>()
+
+  const addImage = (digest: string): FakeManifest => {
+    // Config and layer digests are derived from the image digest, they are never fetched.
+    const manifest = {
+      mediaType: 'application/vnd.docker.distribution.manifest.v2+json',
+      content: JSON.stringify({
+        schemaVersion: 2,
+        mediaType: 'application/vnd.docker.distribution.manifest.v2+json',
+        config: {
+          mediaType: 'application/vnd.docker.container.image.v1+json',
+          size: 0,
+          digest: sha256(`${digest} config`)
+        },
+        layers: [
+          {
+            mediaType: 'application/vnd.docker.image.rootfs.diff.tar.gzip',
+            size: 0,
+            digest: sha256(`${digest} layer`)
+          }
+        ]
+      })
+    }
+    manifests.set(digest, manifest)
+    return manifest
+  }
+
+  for (const image of images) {
+    if (image.manifests == null) {
+      addImage(image.digest)
+      continue
+    }
+
+    manifests.set(image.digest, {
+      mediaType: 'application/vnd.docker.distribution.manifest.list.v2+json',
+      content: JSON.stringify({
+        schemaVersion: 2,
+        mediaType: 'application/vnd.docker.distribution.manifest.list.v2+json',
+        manifests: image.manifests.map(m => {
+          const [os, architecture, variant] = m.platform.split('/')
+          return {
+            mediaType: 'application/vnd.docker.distribution.manifest.v2+json',
+            size: addImage(m.digest).content.length,
+            digest: m.digest,
+            platform: { architecture, os, ...(variant ? { variant } : {}) }
+          }
+        })
+      })
+    })
+  }
+
+  return manifests
+}
+
+/**
+ * Emulates the GitHub Container Registry and the container package endpoints of the GitHub Packages API in memory, so
+ * that the integration test scenarios can run offline.
+ *
+ * Like ghcr.io, the registry answers unauthenticated requests with a `Bearer` token challenge, does not implement the
+ * referrers API and does not support deleting manifests. Every manifest pushed creates a package version, which can
+ * only be listed and deleted through the Packages API. The last version of a package cannot be deleted.
+ */
+export class FakeGhcr {
+  // The HTTP server.
+  server: http.Server
+
+  // The base URL of the server, set once started.
+  url = ''
+
+  // The token required for all requests.
+  token: string
+
+  // Whether the owners are users or organizations.
+  ownerType: 'User' | 'Organization' = 'User'
+
+  // The packages by `owner/package`.
+  packages = new Map<string, FakePackage>()
+
+  // The next version id.
+  nextId = 1
+
+  // The time of the next version, advanced by a second for each version, so that versions are ordered.
+  clock = Date.parse('2024-01-01T00:00:00Z')
+
+  // The status of responses to the referrers API, which ghcr.io does not implement.
+  referrersStatus = 404
+
+  // The requests received, e.g. `GET /v2/owner/package/tags/list`.
+  requests: string[] = []
+
+  constructor(token = 'test-token') {
+    this.token = token
+    this.server = http.createServer(async (req, res) => {
+      try {
+        await this.handle(req, res)
+      } catch (error) {
+        res.writeHead(500, { 'Content-Type': 'application/json' })
+        res.end(JSON.stringify({ message: `${error}` }))
+      }
+    })
+  }
+
+  /**
+   * Starts the server on a free port of the loopback interface.
+   */
+  async start(): Promise<void> {
+    await new Promise<void>(resolve =>
+      this.server.listen(0, '127.0.0.1', resolve)
+    )
+    const address = this.server.address() as AddressInfo
+    this.url = `http://127.0.0.1:${address.port}`
+  }
+
+  /**
+   * Stops the server.
+   */
+  async stop(): Promise<void> {
+    this.server.closeAllConnections()
+    await new Promise<void>((resolve, reject) =>
+      this.server.close(error => (error ? reject(error) : resolve()))
+    )
+  }
+
+  /**
+   * Removes all packages and recorded requests.
+   */
+  reset(): void {
+    this.packages.clear()
+    this.requests = []
+  }
+
+  /**
+   * Returns a package, creating it if necessary.
+   *
+   * @param repository - The package as `owner/package`.
+   * @returns The package.
+   */
+  getPackage(repository: string): FakePackage {
+    let pkg = this.packages.get(repository)
+    if (pkg == null) {
+      pkg = { versions: [], manifests: new Map() }
+      this.packages.set(repository, pkg)
+    }
+    return pkg
+  }
+
+  /**
+   * Stores a manifest, as if pushed, creating a version for a new digest and moving the tag to it.
+   *
+   * @param repository - The package as `owner/package`.
+   * @param digest - The digest of the manifest.
+   * @param manifest - The manifest.
+   * @param tag - The tag to attach to the manifest, if any.
+   * @returns The version of the manifest.
+   */
+  putManifest(
+    repository: string,
+    digest: string,
+    manifest: FakeManifest,
+    tag?: string
+  ): FakeVersion {
+    const pkg = this.getPackage(repository)
+
+    let version = pkg.versions.find(v => v.name === digest)
+    if (version == null) {
+      const time = new Date(this.clock).toISOString()
+      this.clock += 1000
+      version = {
+        id: this.nextId++,
+        name: digest,
+        tags: [],
+        created_at: time,
+        updated_at: time
+      }
+      pkg.versions.push(version)
+      pkg.manifests.set(digest, manifest)
+    }
+
+    if (tag != null && !version.tags.includes(tag)) {
+      for (const v of pkg.versions) {
+        v.tags = v.tags.filter(t => t !== tag)
+      }
+      version.tags.push(tag)
+    }
+    return version
+  }
+
+  /**
+   * Copies an upstream image into a package, like `skopeo copy`, keeping its digest.
+   *
+   * A multi-arch image is copied with all its images if `all` is set, which are pushed before the manifest list.
+   * Otherwise, only the `linux/amd64` image is copied.
+   *
+   * @param repository - The package as `owner/package`.
+   * @param upstream - The upstream manifests by digest.
+   * @param digest - The digest of the upstream image.
+   * @param tags - The tags to attach, none for an untagged copy.
+   * @param all - Whether to copy all images of a multi-arch image.
+   */
+  copyImage(
+    repository: string,
+    upstream: Map<string, FakeManifest>,
+    digest: string,
+    tags: string[],
+    all: boolean
+  ): void {
+    const manifest = upstream.get(digest)
+    if (manifest == null) {
+      throw new Error(`upstream image ${digest} not found`)
+    }
+
+    const children: Array<{ digest: string; platform?: { os: string } }> =
+      JSON.parse(manifest.content).manifests ?? []
+    if (children.length > 0 && !all) {
+      const amd64 = children.find(
+        c =>
+          JSON.stringify(c.platform) === '{"architecture":"amd64","os":"linux"}'
+      )
+      if (amd64 == null) {
+        throw new Error(`upstream image ${digest} has no linux/amd64 image`)
+      }
+      this.copyImage(repository, upstream, amd64.digest, tags, false)
+      return
+    }
+
+    for (const child of children) {
+      this.copyImage(repository, upstream, child.digest, [], false)
+    }
+    this.putManifest(repository, digest, manifest)
+    for (const tag of tags) {
+      this.putManifest(repository, digest, manifest, tag)
+    }
+  }
+
+  /**
+   * Loads the versions of a fixture into a package, keeping their digests and any recorded timestamps.
+   *
+   * @param repository - The package as `owner/package`.
+   * @param versions - The versions, from oldest to newest.
+   */
+  loadFixture(repository: string, versions: FixtureVersion[]): void {
+    for (const v of versions) {
+      const manifest = {
+        mediaType: v.manifest.mediaType,
+        content: JSON.stringify(v.manifest)
+      }
+      const version = this.putManifest(repository, v.digest, manifest)
+      version.created_at = v.created_at ?? version.created_at
+      version.updated_at = v.updated_at ?? v.created_at ?? version.updated_at
+      // Versions pushed later are newer than the fixture.
+      this.clock = Math.max(this.clock, Date.parse(version.updated_at) + 1000)
+
+      for (const tag of v.tags) {
+        this.putManifest(repository, v.digest, manifest, tag)
+      }
+    }
+  }
+
+  /**
+   * Handles a request to the registry or the Packages API.
+   */
+  private async handle(
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    const url = new URL(req.url ?? '/', this.url)
+    const method = req.method ?? 'GET'
+    this.requests.push(`${method} ${url.pathname}`)
+
+    const chunks: Buffer[] = []
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer)
+    }
+    const body = Buffer.concat(chunks).toString('utf-8')
+
+    const send = (
+      status: number,
+      data?: unknown,
+      headers: Record<string, string> = {}
+    ): void => {
+      const content =
+        data == null
+          ? ''
+          : typeof data === 'string'
+            ? data
+            : JSON.stringify(data)
+      res.writeHead(status, {
+        'Content-Type': 'application/json',
+        'Content-Length': Buffer.byteLength(content).toString(),
+        ...headers
+      })
+      res.end(method === 'HEAD' ? undefined : content)
+    }
+
+    // Token endpoint of the registry.
+    if (url.pathname === '/token') {
+      send(200, { token: this.token })
+      return
+    }
+
+    const authorized =
+      req.headers.authorization === `Bearer ${this.token}` ||
+      req.headers.authorization === `token ${this.token}`
+
+    let m = /^\/v2\/(.+)\/(manifests|referrers)\/([^/]+)$/.exec(url.pathname)
+    const t = /^\/v2\/(.+)\/tags\/list$/.exec(url.pathname)
+    if (m != null || t != null) {
+      const repository = (m ?? t)?.[1] as string
+      if (!authorized) {
+        const action = method === 'PUT' ? 'push' : 'pull'
+        send(
+          401,
+          { errors: [{ code: 'UNAUTHORIZED' }] },
+          {
+            'WWW-Authenticate': `Bearer realm="${this.url}/token",service="ghcr.io",scope="repository:${repository}:${action}"`
+          }
+        )
+        return
+      }
+      const pkg = this.packages.get(repository)
+
+      if (t != null) {
+        if (pkg == null) {
+          send(404, { errors: [{ code: 'NAME_UNKNOWN' }] })
+        } else {
+          send(200, {
+            name: repository,
+            tags: pkg.versions.flatMap(v => v.tags)
+          })
+        }
+        return
+      }
+
+      const [, , kind, reference] = m as RegExpExecArray
+      if (kind === 'referrers') {
+        send(this.referrersStatus, { errors: [{ code: 'NOT_FOUND' }] })
+      } else if (method === 'PUT') {
+        const digest = sha256(body)
+        this.putManifest(
+          repository,
+          digest,
+          {
+            mediaType: req.headers['content-type'] ?? '',
+            content: body
+          },
+          reference.startsWith('sha256:') ? undefined : reference
+        )
+        send(201, undefined, {
+          'Docker-Content-Digest': digest,
+          Location: `/v2/${repository}/manifests/${digest}`
+        })
+      } else if (method === 'GET' || method === 'HEAD') {
+        const version = pkg?.versions.find(
+          v => v.name === reference || v.tags.includes(reference)
+        )
+        const manifest =
+          version != null ? pkg?.manifests.get(version.name) : undefined
+        if (version == null || manifest == null) {
+          send(404, { errors: [{ code: 'MANIFEST_UNKNOWN' }] })
+        } else {
+          send(200, manifest.content, {
+            'Content-Type': manifest.mediaType,
+            'Docker-Content-Digest': version.name
+          })
+        }
+      } else {
+        send(405, { errors: [{ code: 'UNSUPPORTED' }] })
+      }
+      return
+    }
+
+    if (!authorized) {
+      send(401, { message: 'Requires authentication' })
+      return
+    }
+
+    m = /^\/repos\/([^/]+)\/([^/]+)$/.exec(url.pathname)
+    if (m != null && method === 'GET') {
+      send(200, {
+        name: m[2],
+        private: false,
+        owner: { login: m[1], type: this.ownerType }
+      })
+      return
+    }
+
+    m =
+      /^\/(?:(?:users|orgs)\/([^/]+)|user)\/packages\/container\/([^/]+)\/versions(?:\/(\d+))?$/.exec(
+        url.pathname
+      )
+    if (m == null) {
+      send(404, { message: 'Not Found' })
+      return
+    }
+
+    const owner = m[1] ?? 'user'
+    const name = decodeURIComponent(m[2])
+    const pkg = this.packages.get(`${owner}/${name}`)
+    if (pkg == null) {
+      send(404, { message: 'Package not found.' })
+      return
+    }
+
+    if (m[3] == null && method === 'GET') {
+      // List the versions from newest to oldest, one page at a time.
+      const page = parseInt(url.searchParams.get('page') ?? '1')
+      const perPage = parseInt(url.searchParams.get('per_page') ?? '30')
+      const versions = [...pkg.versions].reverse()
+      const data = versions
+        .slice((page - 1) * perPage, page * perPage)
+        .map(v => this.toPackageVersion(owner, name, v))
+
+      const headers: Record<string, string> = {}
+      if (page * perPage < versions.length) {
+        const next = new URL(url)
+        next.searchParams.set('page', `${page + 1}`)
+        headers['Link'] = `<${next}>; rel="next"`
+      }
+      send(200, data, headers)
+    } else if (m[3] != null && method === 'DELETE') {
+      const id = parseInt(m[3])
+      const version = pkg.versions.find(v => v.id === id)
+      if (version == null) {
+        send(404, { message: 'Package version not found.' })
+      } else if (pkg.versions.length === 1) {
+        send(400, {
+          message: 'You cannot delete the last version of a package.'
+        })
+      } else {
+        pkg.versions = pkg.versions.filter(v => v !== version)
+        pkg.manifests.delete(version.name)
+        send(204)
+      }
+    } else {
+      send(405, { message: 'Method Not Allowed' })
+    }
+  }
+
+  /**
+   * Converts a version to its representation in the Packages API.
+   */
+  private toPackageVersion(
+    owner: string,
+    name: string,
+    version: FakeVersion
+  ): Record<string, unknown> {
+    const url = `${this.url}/users/${owner}/packages/container/${encodeURIComponent(name)}/versions/${version.id}`
+    return {
+      id: version.id,
+      name: version.name,
+      url,
+      package_html_url: `${this.url}/${owner}/packages/container/package/${name}`,
+      created_at: version.created_at,
+      updated_at: version.updated_at,
+      html_url: url,
+      metadata: {
+        package_type: 'container',
+        container: { tags: [...version.tags] }
+      }
+    }
+  }
+}
+
+// The parameters of a Packages API request, e.g. `org` and `package_name`.
+type PackagesParams = Record<string, string | number>
+
+// A page of package versions, with the `Link` header pointing to the next page.
+interface VersionsPage {
+  data: unknown[]
+  link?: string
+}
+
+/**
+ * The subset of the Octokit interface used by the package repository.
+ */
+export interface PackagesClient {
+  rest: {
+    packages: {
+      getAllPackageVersionsForPackageOwnedByUser(
+        params: PackagesParams
+      ): Promise<VersionsPage>
+      getAllPackageVersionsForPackageOwnedByAuthenticatedUser(
+        params: PackagesParams
+      ): Promise<VersionsPage>
+      getAllPackageVersionsForPackageOwnedByOrg(
+        params: PackagesParams
+      ): Promise<VersionsPage>
+      deletePackageVersionForUser(params: PackagesParams): Promise<void>
+      deletePackageVersionForAuthenticatedUser(
+        params: PackagesParams
+      ): Promise<void>
+      deletePackageVersionForOrg(params: PackagesParams): Promise<void>
+    }
+  }
+  paginate: {
+    iterator(
+      fetch: (params: PackagesParams) => Promise<VersionsPage>,
+      params: PackagesParams
+    ): AsyncGenerator<VersionsPage>
+  }
+  request(route: string): Promise<{ data: unknown }>
+}
+
+/**
+ * Creates a client for the container package endpoints of the Packages API.
+ *
+ * Octokit is published as an ECMAScript module only, which Jest cannot load, hence the replacement for tests.
+ *
+ * @param baseUrl - The base URL of the API.
+ * @param token - The token to authenticate with.
+ * @returns The client.
+ */
+export function createPackagesClient(
+  baseUrl: string,
+  token: string
+): PackagesClient {
+  const client: AxiosInstance = axios.create({
+    baseURL: baseUrl,
+    headers: { Authorization: `token ${token}` }
+  })
+
+  const versionsUrl = (p: PackagesParams): string => {
+    const name = encodeURIComponent(p.package_name)
+    if (p.org != null)
+      return `/orgs/${p.org}/packages/container/${name}/versions`
+    if (p.username != null) {
+      return `/users/${p.username}/packages/container/${name}/versions`
+    }
+    return `/user/packages/container/${name}/versions`
+  }
+
+  const list = async (p: PackagesParams): Promise<VersionsPage> => {
+    const response = await client.get(versionsUrl(p), {
+      params: { state: p.state, per_page: p.per_page, page: p.page }
+    })
+    return { data: response.data, link: response.headers['link'] }
+  }
+  const remove = async (p: PackagesParams): Promise<void> => {
+    await client.delete(`${versionsUrl(p)}/${p.package_version_id}`)
+  }
+
+  return {
+    rest: {
+      packages: {
+        getAllPackageVersionsForPackageOwnedByUser: list,
+        getAllPackageVersionsForPackageOwnedByAuthenticatedUser: list,
+        getAllPackageVersionsForPackageOwnedByOrg: list,
+        deletePackageVersionForUser: remove,
+        deletePackageVersionForAuthenticatedUser: remove,
+        deletePackageVersionForOrg: remove
+      }
+    },
+    paginate: {
+      async *iterator(
+        fetch: typeof list,
+        params: PackagesParams
+      ): AsyncGenerator<VersionsPage> {
+        for (let page = 1; ; page++) {
+          const response = await fetch({ ...params, page })
+          yield response
+          if (!response.link?.includes('rel="next"')) return
+        }
+      }
+    },
+    async request(route: string): Promise<{ data: unknown }> {
+      // Only routes without parameters or a body are supported, e.g. `GET /repos/owner/repo`.
+      const [method, url] = route.split(' ')
+      const response = await client.request({ method, url })
+      return { data: response.data }
+    }
+  }
+}
@@ -0,0 +1,175 @@
+import { createFixture, formatFixture, parseFixture } from './fixture'
+import { PackageVersionExtModel } from './models'
+
+const digest = (c: string): string => `sha256:${c.repeat(64)}`
+
+describe('parseFixture', () => {
+  it('should synthesize manifests from the shorthand properties', () => {
+    const versions = parseFixture(`
+versions:
+  - digest: ${digest('a')}
+    created-at: 2024-01-01T00:00:00Z
+  - digest: ${digest('b')}
+    tags: [latest]
+    children: [${digest('a')}]
+  - digest: ${digest('c')}
+    artifact-type: application/vnd.dev.sigstore.bundle.v0.3+json
+    layers: [application/vnd.dev.sigstore.bundle.v0.3+json]
+    subject: ${digest('b')}
+`)
+
+    expect(versions.map(v => v.digest)).toEqual([
+      digest('a'),
+      digest('b'),
+      digest('c')
+    ])
+    expect(versions[0].created_at).toBe('2024-01-01T00:00:00Z')
+    expect(versions[0].manifest.mediaType).toBe(
+      'application/vnd.oci.image.manifest.v1+json'
+    )
+    expect(versions[0].manifest.layers).toHaveLength(1)
+    expect(versions[1].tags).toEqual(['latest'])
+    expect(versions[1].manifest).toEqual({
+      schemaVersion: 2,
+      mediaType: 'application/vnd.oci.image.index.v1+json',
+      manifests: [
+        {
+          mediaType: 'application/vnd.oci.image.manifest.v1+json',
+          digest: digest('a'),
+          size: 0
+        }
+      ]
+    })
+    expect(versions[2].manifest.artifactType).toBe(
+      'application/vnd.dev.sigstore.bundle.v0.3+json'
+    )
+    expect(versions[2].manifest.subject).toEqual({
+      mediaType: 'application/vnd.oci.image.index.v1+json',
+      digest: digest('b'),
+      size: 0
+    })
+  })
+
+  it('should keep verbatim manifests', () => {
+    const versions = parseFixture(
+      JSON.stringify({
+        versions: [
+          {
+            digest: digest('a'),
+            manifest: {
+              mediaType: 'application/vnd.docker.distribution.manifest.v2+json',
+              layers: []
+            }
+          }
+        ]
+      })
+    )
+
+    expect(versions[0].manifest).toEqual({
+      mediaType: 'application/vnd.docker.distribution.manifest.v2+json',
+      layers: []
+    })
+  })
+
+  it('should reject invalid fixtures', () => {
+    expect(() => parseFixture('versions: [')).toThrow('Invalid fixture')
+    expect(() => parseFixture('versions: [{ digest: latest }]')).toThrow(
+      'Invalid fixture'
+    )
+    expect(() =>
+      parseFixture(
+        `versions: [{ digest: '${digest('a')}' }, { digest: '${digest('a')}' }]`
+      )
+    ).toThrow('Invalid fixture: duplicate digests')
+    expect(() =>
+      parseFixture(
+        `versions: [{ digest: '${digest('a')}', subject: '${digest('b')}', manifest: { mediaType: x } }]`
+      )
+    ).toThrow(`version ${digest('a')} has a manifest, it cannot have subject`)
+    expect(() =>
+      parseFixture(
+        `versions: [{ digest: '${digest('a')}', media-type: application/vnd.oci.image.manifest.v1+json, children: ['${digest('b')}'] }]`
+      )
+    ).toThrow('only an index has children')
+  })
+})
+
+describe('createFixture', () => {
+  it('should snapshot the versions from oldest to newest', () => {
+    const version = (
+      id: number,
+      name: string,
+      tags: string[]
+    ): PackageVersionExtModel =>
+      new PackageVersionExtModel(
+        {
+          id,
+          name,
+          url: 'https://example.com',
+          package_html_url: 'https://example.com',
+          created_at: '2024-01-01T00:00:00Z',
+          updated_at: '2024-01-02T00:00:00Z',
+          html_url: 'https://example.com',
+          metadata: { package_type: 'container', container: { tags } }
+        },
+        {
+          mediaType: 'application/vnd.oci.image.manifest.v1+json',
+          layers: []
+        }
+      )
+
+    const fixture = createFixture('owner/package', {
+      getVersions: () => [
+        version(2, digest('b'), []),
+        version(1, digest('a'), ['latest'])
+      ]
+    })
+
+    expect(fixture.versions.map(v => v.digest)).toEqual([
+      digest('a'),
+      digest('b')
+    ])
+    expect(fixture.versions[0].tags).toEqual(['latest'])
+    expect(fixture.versions[1].tags).toBeUndefined()
+
+    // The snapshot can be loaded again.
+    const versions = parseFixture(formatFixture(fixture))
+    expect(versions[0]).toEqual({
+      digest: digest('a'),
+      tags: ['latest'],
+      created_at: '2024-01-01T00:00:00Z',
+      updated_at: '2024-01-02T00:00:00Z',
+      manifest: {
+        mediaType: 'application/vnd.oci.image.manifest.v1+json',
+        layers: []
+      }
+    })
+  })
+
+  it('should omit the timestamps of versions of unknown age', () => {
+    const version = new PackageVersionExtModel(
+      {
+        id: 1,
+        name: digest('a'),
+        url: 'https://example.com',
+        package_html_url: 'https://example.com',
+        created_at: '',
+        updated_at: '',
+        html_url: 'https://example.com',
+        metadata: { package_type: 'container', container: { tags: [] } }
+      },
+      {
+        mediaType: 'application/vnd.oci.image.manifest.v1+json',
+        layers: []
+      }
+    )
+
+    const fixture = createFixture('owner/package', {
+      getVersions: () => [version]
+    })
+
+    expect(fixture.versions[0]).not.toHaveProperty('created-at')
+    expect(fixture.versions[0]).not.toHaveProperty('updated-at')
+    expect(() => parseFixture(formatFixture(fixture))).not.toThrow()
+  })
+})
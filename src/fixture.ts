@@ -0,0 +1,222 @@
+import * as core from '@actions/core'
+import fs from 'fs'
+import YAML from 'yaml'
+import type { PackageRepo } from './github-package'
+import {
+  FixtureInput,
+  FixtureVersionInput,
+  fixtureSchema,
+  Manifest,
+  ManifestReference
+} from './schemas'
+import { sha256 } from './utils'
+
+/**
+ * The media types of manifests pointing to child manifests.
+ */
+const INDEX_MEDIA_TYPES = [
+  'application/vnd.oci.image.index.v1+json',
+  'application/vnd.docker.distribution.manifest.list.v2+json'
+]
+
+// The default media type of a synthesized manifest without children.
+const OCI_MANIFEST = 'application/vnd.oci.image.manifest.v1+json'
+
+/**
+ * A package version of a fixture.
+ */
+export interface FixtureVersion {
+  // The digest of the manifest.
+  digest: string
+  // The tags of the version.
+  tags: string[]
+  // The creation time, if recorded.
+  created_at?: string
+  // The time of the last update, if recorded.
+  updated_at?: string
+  // The manifest, as given or synthesized.
+  manifest: Manifest
+}
+
+/**
+ * Synthesizes the manifest of a fixture version from its media type, children, subject and layers.
+ *
+ * Config and layer digests are derived from the digest of the version, since blobs are never fetched.
+ *
+ * @param input - The fixture version.
+ * @param getMediaType - Returns the media type of another version of the fixture.
+ * @returns The manifest.
+ */
+function synthesizeManifest(
+  input: FixtureVersionInput,
+  getMediaType: (digest: string) => string
+): Manifest {
+  const mediaType =
+    input['media-type'] ??
+    (input.children != null ? INDEX_MEDIA_TYPES[0] : OCI_MANIFEST)
+  const descriptor = (digest: string): ManifestReference => ({
+    mediaType: getMediaType(digest),
+    digest,
+    size: 0
+  })
+
+  const manifest: Manifest = { schemaVersion: 2, mediaType }
+  if (input['artifact-type'] != null) {
+    manifest.artifactType = input['artifact-type']
+  }
+
+  if (INDEX_MEDIA_TYPES.includes(mediaType)) {
+    if (input.layers != null) {
+      throw new Error(`version ${input.digest}: an index cannot have layers`)
+    }
+    manifest.manifests = (input.children ?? []).map(descriptor)
+  } else {
+    if (input.children != null) {
+      throw new Error(`version ${input.digest}: only an index has children`)
+    }
+    manifest.config = {
+      mediaType:
+        input['artifact-type'] != null
+          ? 'application/vnd.oci.empty.v1+json'
+          : 'application/vnd.oci.image.config.v1+json',
+      digest: sha256(`${input.digest} config`),
+      size: 0
+    }
+    manifest.layers = (
+      input.layers ?? ['application/vnd.oci.image.layer.v1.tar+gzip']
+    ).map((layer, i) => ({
+      mediaType: layer,
+      digest: sha256(`${input.digest} layer ${i}`),
+      size: 0
+    }))
+  }
+
+  if (input.subject != null) {
+    manifest.subject = descriptor(input.subject)
+  }
+  return manifest
+}
+
+/**
+ * Parses a scenario fixture from YAML or JSON.
+ *
+ * @param text - The contents of the fixture file.
+ * @returns The versions of the package, from oldest to newest.
+ * @throws An error if the fixture is invalid.
+ */
+export function parseFixture(text: string): FixtureVersion[] {
+  let parsed: unknown
+  try {
+    parsed = YAML.parse(text)
+  } catch (error) {
+    throw new Error(
+      `Invalid fixture: ${error instanceof Error ? error.message : 'Unknown error'}`
+    )
+  }
+
+  // Validate with Zod
+  const result = fixtureSchema.safeParse(parsed)
+
+  if (!result.success) {
+    core.info(`Validation errors: ${JSON.stringify(result.error.format())}`)
+    throw new Error(`Invalid fixture: ${result.error.message}`)
+  }
+
+  const inputs = new Map(result.data.versions.map(v => [v.digest, v]))
+  if (inputs.size !== result.data.versions.length) {
+    throw new Error('Invalid fixture: duplicate digests')
+  }
+
+  const getMediaType = (digest: string): string => {
+    const input = inputs.get(digest)
+    return (
+      input?.manifest?.mediaType ??
+      input?.['media-type'] ??
+      (input?.children != null ? INDEX_MEDIA_TYPES[0] : OCI_MANIFEST)
+    )
+  }
+
+  return result.data.versions.map(input => {
+    const shorthand = (
+      ['media-type', 'artifact-type', 'children', 'subject', 'layers'] as const
+    ).filter(key => input[key] != null)
+    if (input.manifest != null && shorthand.length > 0) {
+      throw new Error(
+        `Invalid fixture: version ${input.digest} has a manifest, it cannot have ${shorthand.join(', ')}`
+      )
+    }
+
+    let manifest: Manifest
+    try {
+      manifest = input.manifest ?? synthesizeManifest(input, getMediaType)
+    } catch (error) {
+      throw new Error(
+        `Invalid fixture: ${error instanceof Error ? error.message : error}`
+      )
+    }
+
+    return {
+      digest: input.digest,
+      tags: input.tags ?? [],
+      ...(input['created-at'] != null
+        ? { created_at: input['created-at'] }
+        : {}),
+      ...(input['updated-at'] != null
+        ? { updated_at: input['updated-at'] }
+        : {}),
+      manifest
+    }
+  })
+}
+
+/**
+ * Loads a scenario fixture from a YAML or JSON file.
+ *
+ * @param filePath - The path of the fixture file.
+ * @returns The versions of the package, from oldest to newest.
+ */
+export function loadFixtureFile(filePath: string): FixtureVersion[] {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Fixture file ${filePath} not found`)
+  }
+  return parseFixture(fs.readFileSync(filePath, 'utf-8'))
+}
+
+/**
+ * Snapshots the versions of a package into a fixture, keeping the manifests verbatim.
+ *
+ * @param name - The package as `owner/package`.
+ * @param repo - The package repository, with the versions loaded.
+ * @returns The fixture, with the versions from oldest to newest.
+ */
+export function createFixture(
+  name: string,
+  repo: Pick<PackageRepo, 'getVersions'>
+): FixtureInput {
+  const versions = repo.getVersions().sort((x, y) => x.id - y.id)
+
+  return {
+    package: name,
+    versions: versions.map(v => ({
+      digest: v.name,
+      ...(v.metadata.container.tags.length > 0
+        ? { tags: [...v.metadata.container.tags] }
+        : {}),
+      // The timestamps are unknown for some versions outside of GitHub.
+      ...(v.created_at ? { 'created-at': v.created_at } : {}),
+      ...(v.updated_at ? { 'updated-at': v.updated_at } : {}),
+      // Drop the model class, only the manifest properties are kept.
+      manifest: JSON.parse(JSON.stringify(v.manifest))
+    }))
+  }
+}
+
+/**
+ * Formats a fixture as YAML.
+ *
+ * @param fixture - The fixture.
+ * @returns The YAML document.
+ */
+export function formatFixture(fixture: FixtureInput): string {
+  return YAML.stringify(fixture)
+}
@@ -1,9 +1,22 @@
-import { ManifestReference } from './schemas'
-import { ManifestHolder, MediaType, PackageMetadataHolder } from './models'
+import { Manifest, ManifestReference } from './schemas'
 import {
+  DockerSchema1ManifestModel,
+  ManifestHolder,
+  MediaType,
+  OpaqueManifestModel,
+  PackageMetadataHolder,
+  PackageVersionExt,
+  PackageVersionExtModel
+} from './models'
+import type { Config } from './config'
+import { RegistryClient } from './registry'
+import {
+  GithubPackageRepo,
+  getArtifactType,
   getManifestChildren,
   discoverAndLinkManifestChildren,
   discoverAndLinkReferrers,
+  discoverAndLinkReferrerDescriptors,
   discoverAndLinkReferrerTags
 } from './github-package'
 import { Node } from './tree'
@@ -453,6 +466,19 @@ describe('discoverAndLinkReferrerTags', () => {
     expect(v3.parent).toBe(v1)
   })
 
+  test('should link cosign tags', () => {
+    const digest = 'a'.repeat(64)
+    const v1 = new MockVersion(`sha256:${digest}`, ['v1'])
+    const v2 = new MockVersion('sha256:ea39069f7c2b', [`sha256-${digest}.sig`])
+    versions.add(v1)
+    versions.add(v2)
+
+    const result = discoverAndLinkReferrerTags(versions, getVersion)
+
+    expect(result).toEqual([v2])
+    expect(v2.parent).toBe(v1)
+  })
+
   test('should not link to self', () => {
     const v1 = new MockVersion('sha256:1cf72a3e3336', [
       'v1',
@@ -529,3 +555,446 @@ describe('discoverAndLinkReferrerTags', () => {
     expect(v2.parent).toBeNull()
   })
 })
+
+describe('discoverAndLinkReferrerDescriptors', () => {
+  interface DescriptorVersion extends Node<DescriptorVersion> {
+    name: string
+    referrers: ManifestReference[]
+    artifactType: string | null
+  }
+
+  const createVersion = (
+    name: string,
+    referrers: ManifestReference[] = [],
+    artifactType: string | null = null
+  ): DescriptorVersion => ({
+    name,
+    referrers,
+    artifactType,
+    children: [],
+    parent: null
+  })
+
+  const descriptor = (
+    digest: string,
+    artifactType?: string
+  ): ManifestReference => ({
+    mediaType: 'application/vnd.oci.image.manifest.v1+json',
+    digest,
+    artifactType
+  })
+
+  it('should link referrers to their subject', () => {
+    const v2 = createVersion('v2')
+    const v1 = createVersion('v1', [
+      descriptor('v2', 'application/vnd.dev.cosign.artifact.sig.v1+json')
+    ])
+    const versions = new Set([v1, v2])
+    const getVersion = (key: string | number): DescriptorVersion | undefined =>
+      Array.from(versions).find(v => v.name === key)
+
+    const result = discoverAndLinkReferrerDescriptors(versions, getVersion)
+
+    expect(result).toEqual([v2])
+    expect(v2.parent).toBe(v1)
+    expect(v1.children).toEqual([v2])
+    expect(v2.artifactType).toBe(
+      'application/vnd.dev.cosign.artifact.sig.v1+json'
+    )
+  })
+
+  it('should keep the artifact type of the referrer', () => {
+    const v2 = createVersion('v2', [], 'application/spdx+json')
+    const v1 = createVersion('v1', [descriptor('v2', 'application/other')])
+    const getVersion = (key: string | number): DescriptorVersion | undefined =>
+      key === 'v2' ? v2 : undefined
+
+    discoverAndLinkReferrerDescriptors(new Set([v1, v2]), getVersion)
+
+    expect(v2.artifactType).toBe('application/spdx+json')
+  })
+
+  it('should skip unknown and already linked referrers', () => {
+    const v3 = createVersion('v3')
+    const v2 = createVersion('v2', [descriptor('v3')])
+    const v1 = createVersion('v1', [descriptor('v3'), descriptor('missing')])
+    const versions = new Set([v1, v2, v3])
+    v3.parent = v2
+    v2.children.push(v3)
+    const getVersion = (key: string | number): DescriptorVersion | undefined =>
+      Array.from(versions).find(v => v.name === key)
+
+    const result = discoverAndLinkReferrerDescriptors(versions, getVersion)
+
+    expect(result).toEqual([])
+    expect(v1.children).toEqual([])
+    expect(v3.parent).toBe(v2)
+  })
+})
+
+describe('getArtifactType', () => {
+  const createVersion = (
+    manifest: Manifest,
+    tags: string[] = []
+  ): PackageVersionExt =>
+    new PackageVersionExtModel(
+      {
+        id: 1,
+        name: 'sha256:1',
+        url: '',
+        package_html_url: '',
+        created_at: '',
+        updated_at: '',
+        html_url: '',
+        metadata: { package_type: 'container', container: { tags } }
+      },
+      manifest
+    )
+
+  const layer = (mediaType: string): ManifestReference => ({
+    mediaType,
+    digest: 'sha256:2'
+  })
+
+  const imageConfig = layer('application/vnd.oci.image.config.v1+json')
+
+  it('should recognize images', () => {
+    expect(
+      getArtifactType(
+        createVersion({
+          mediaType: 'application/vnd.oci.image.manifest.v1+json',
+          config: imageConfig,
+          layers: [layer('application/vnd.oci.image.layer.v1.tar+gzip')]
+        })
+      )
+    ).toBe('single-arch image')
+    expect(
+      getArtifactType(
+        createVersion({
+          mediaType: 'application/vnd.oci.image.index.v1+json',
+          manifests: [layer('application/vnd.oci.image.manifest.v1+json')]
+        })
+      )
+    ).toBe('multi-arch image')
+  })
+
+  it('should recognize Docker schema 1 and opaque manifests', () => {
+    expect(
+      getArtifactType(
+        createVersion(
+          new DockerSchema1ManifestModel({
+            mediaType:
+              'application/vnd.docker.distribution.manifest.v1+prettyjws'
+          })
+        )
+      )
+    ).toBe('single-arch image')
+    expect(
+      getArtifactType(
+        createVersion(
+          new OpaqueManifestModel({
+            mediaType: 'application/unknown',
+            manifests: [layer('application/vnd.oci.image.manifest.v1+json')]
+          })
+        )
+      )
+    ).toBe('unknown')
+  })
+
+  it('should recognize cosign signatures, attestations and SBOMs by tag', () => {
+    const manifest: Manifest = {
+      mediaType: 'application/vnd.oci.image.manifest.v1+json',
+      config: imageConfig,
+      layers: [layer('application/vnd.oci.image.layer.v1.tar+gzip')]
+    }
+    const digest = 'a'.repeat(64)
+
+    expect(
+      getArtifactType(createVersion(manifest, [`sha256-${digest}.sig`]))
+    ).toBe('signature')
+    expect(
+      getArtifactType(createVersion(manifest, [`sha256-${digest}.att`]))
+    ).toBe('attestation')
+    expect(
+      getArtifactType(createVersion(manifest, [`sha256-${digest}.sbom`]))
+    ).toBe('sbom')
+  })
+
+  it('should recognize artifacts by artifact type and config media type', () => {
+    const artifact = (type: string): Manifest => ({
+      mediaType: 'application/vnd.oci.image.manifest.v1+json',
+      artifactType: type,
+      config: layer('application/vnd.oci.empty.v1+json'),
+      layers: [layer('application/octet-stream')]
+    })
+
+    expect(
+      getArtifactType(
+        createVersion(
+          artifact('application/vnd.dev.cosign.artifact.sig.v1+json')
+        )
+      )
+    ).toBe('signature')
+    expect(
+      getArtifactType(createVersion(artifact('application/spdx+json')))
+    ).toBe('sbom')
+    expect(
+      getArtifactType(
+        createVersion(artifact('application/vnd.dev.sigstore.bundle.v0.3+json'))
+      )
+    ).toBe('attestation')
+    expect(
+      getArtifactType(createVersion(artifact('application/x-custom')))
+    ).toBe('generic-artifact')
+    expect(
+      getArtifactType(
+        createVersion({
+          mediaType: 'application/vnd.oci.image.manifest.v1+json',
+          config: layer('application/vnd.cncf.helm.config.v1+json'),
+          layers: [layer('application/vnd.cncf.helm.chart.content.v1.tar+gzip')]
+        })
+      )
+    ).toBe('helm-chart')
+    expect(
+      getArtifactType(
+        createVersion({
+          mediaType: 'application/vnd.oci.image.manifest.v1+json',
+          config: layer('application/vnd.wasm.config.v0+json'),
+          layers: [layer('application/wasm')]
+        })
+      )
+    ).toBe('wasm')
+  })
+
+  it('should recognize artifacts by layer media types', () => {
+    expect(
+      getArtifactType(
+        createVersion({
+          mediaType: 'application/vnd.oci.image.manifest.v1+json',
+          config: imageConfig,
+          layers: [layer('application/vnd.dev.cosign.simplesigning.v1+json')]
+        })
+      )
+    ).toBe('signature')
+    expect(
+      getArtifactType(
+        createVersion({
+          mediaType: 'application/vnd.oci.image.manifest.v1+json',
+          config: imageConfig,
+          layers: [layer('application/vnd.in-toto+json')]
+        })
+      )
+    ).toBe('attestation')
+  })
+})
+
+describe('GithubPackageRepo', () => {
+  const digest = (n: number): string =>
+    `sha256:${n.toString().padStart(64, '0')}`
+
+  const packageVersion = (
+    id: number,
+    tags: string[]
+  ): Record<string, unknown> => ({
+    id,
+    name: digest(id),
+    url: `https://api.github.com/versions/${id}`,
+    package_html_url: 'https://github.com/owner/package',
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z',
+    html_url: `https://github.com/owner/package/${id}`,
+    metadata: { package_type: 'container', container: { tags } }
+  })
+
+  const manifests: Record<string, Manifest> = {
+    [digest(1)]: {
+      mediaType: 'application/vnd.oci.image.index.v1+json',
+      manifests: [
+        {
+          mediaType: 'application/vnd.oci.image.manifest.v1+json',
+          digest: digest(2)
+        }
+      ]
+    },
+    [digest(2)]: {
+      mediaType: 'application/vnd.oci.image.manifest.v1+json',
+      layers: [layerOf('application/vnd.oci.image.layer.v1.tar+gzip')]
+    },
+    // A temporary version a previous run left tag v2 on.
+    [digest(4)]: {
+      mediaType: 'application/vnd.oci.image.manifest.v1+json',
+      layers: [],
+      annotations: { 'ghcr-cleanup-action.deleted-tag': 'v2' }
+    },
+    [digest(5)]: new DockerSchema1ManifestModel({
+      mediaType: 'application/vnd.docker.distribution.manifest.v1+prettyjws',
+      fsLayers: [{ blobSum: digest(100) }]
+    })
+  }
+
+  function layerOf(mediaType: string): ManifestReference {
+    return { mediaType, digest: digest(100) }
+  }
+
+  /**
+   * Creates a repository whose API serves the given versions, newest first.
+   */
+  const createRepo = (
+    versions: Array<Record<string, unknown>>
+  ): {
+    repo: GithubPackageRepo
+    list: jest.Mock
+    deleted: number[]
+    pushed: string[]
+  } => {
+    const deleted: number[] = []
+    const pushed: string[] = []
+    const list = jest.fn(async () => ({ data: versions }))
+    const config = {
+      owner: 'owner',
+      package: 'package',
+      concurrency: 2,
+      dryRun: false,
+      octokit: {
+        rest: {
+          packages: {
+            getAllPackageVersionsForPackageOwnedByOrg: list,
+            deletePackageVersionForOrg: async ({
+              package_version_id
+            }: {
+              package_version_id: number
+            }) => {
+              deleted.push(package_version_id)
+            }
+          }
+        },
+        paginate: {
+          async *iterator(fn: typeof list) {
+            yield await fn()
+          }
+        }
+      }
+    } as unknown as Config
+
+    const repo = new GithubPackageRepo(config)
+    repo.registry = {
+      getManifest: async (reference: string) => manifests[reference],
+      putManifest: async (tag: string) => {
+        pushed.push(tag)
+        // The temporary version is the newest one.
+        versions.unshift(packageVersion(3, [tag]))
+        return digest(3)
+      },
+      getReferrers: async () => []
+    } as unknown as RegistryClient
+
+    return { repo, list, deleted, pushed }
+  }
+
+  it('should delete tags through a temporary version without reloading', async () => {
+    const { repo, list, deleted, pushed } = createRepo([
+      packageVersion(1, ['latest', 'v1']),
+      packageVersion(2, [])
+    ])
+    await repo.loadVersions()
+    list.mockClear()
+
+    await repo.deleteTag('v1')
+
+    expect(pushed).toEqual(['v1'])
+    // Only the first page is requested to find the temporary version.
+    expect(list).toHaveBeenCalledTimes(1)
+    expect(list).toHaveBeenCalledWith(expect.objectContaining({ page: 1 }))
+    expect(deleted).toEqual([3])
+    expect(repo.getTags()).toEqual(['latest'])
+    expect(repo.getVersion(digest(3))).toBeUndefined()
+    expect(Array.from(repo.getRoots()).map(v => v.id)).toEqual([1])
+  })
+
+  it('should resume the deletion of a tag if the temporary version is not found', async () => {
+    const versions = [
+      packageVersion(1, ['latest', 'v1']),
+      packageVersion(2, [])
+    ]
+    const { repo, list, deleted, pushed } = createRepo(versions)
+    await repo.loadVersions()
+    const put = jest.spyOn(repo.registry, 'putManifest')
+
+    // The listing lags behind the registry.
+    list.mockImplementation(async () => ({
+      data: versions.filter(v => v.id !== 3)
+    }))
+    jest.useFakeTimers()
+    try {
+      await Promise.all([
+        expect(repo.deleteTag('v1')).rejects.toThrow(
+          `Temporary version ${digest(3)} could not be deleted, tag v1 is left on it: Intermediate version used to delete tag v1 not found.`
+        ),
+        jest.advanceTimersByTimeAsync(3000)
+      ])
+    } finally {
+      jest.useRealTimers()
+    }
+
+    // The tag is still attached until the temporary version is deleted.
+    expect(repo.getTags().sort()).toEqual(['latest', 'v1'])
+    expect(deleted).toEqual([])
+
+    list.mockImplementation(async () => ({ data: versions }))
+    await repo.deleteTag('v1')
+
+    // The temporary version is not pushed again.
+    expect(pushed).toEqual(['v1'])
+    expect(put.mock.calls[0][1].annotations).toEqual({
+      'ghcr-cleanup-action.deleted-tag': 'v1'
+    })
+    expect(deleted).toEqual([3])
+    expect(repo.getTags()).toEqual(['latest'])
+  })
+
+  it('should delete the temporary version a previous run left a tag on', async () => {
+    const { repo, list, deleted, pushed } = createRepo([
+      packageVersion(4, ['v2']),
+      packageVersion(1, ['latest']),
+      packageVersion(2, [])
+    ])
+    await repo.loadVersions()
+    list.mockClear()
+
+    await repo.deleteTag('v2')
+
+    expect(pushed).toEqual([])
+    expect(list).not.toHaveBeenCalled()
+    expect(deleted).toEqual([4])
+    expect(repo.getTags()).toEqual(['latest'])
+    expect(repo.getVersion(digest(4))).toBeUndefined()
+  })
+
+  it('should refuse to delete tags of Docker schema 1 manifests', async () => {
+    const { repo, deleted, pushed } = createRepo([packageVersion(5, ['old'])])
+    await repo.loadVersions()
+
+    await expect(repo.deleteTag('old')).rejects.toThrow(
+      'Tag old of a Docker schema 1 manifest cannot be deleted.'
+    )
+    expect(pushed).toEqual([])
+    expect(deleted).toEqual([])
+    expect(repo.getTags()).toEqual(['old'])
+  })
+
+  it('should update the tree incrementally when deleting versions', async () => {
+    const { repo, deleted } = createRepo([
+      packageVersion(1, ['latest']),
+      packageVersion(2, [])
+    ])
+    await repo.loadVersions()
+
+    await repo.deleteVersion(1)
+
+    expect(deleted).toEqual([1])
+    const roots = Array.from(repo.getRoots())
+    expect(roots.map(v => v.id)).toEqual([2])
+    expect(roots[0].parent).toBeNull()
+    expect(roots[0].type).toBe('single-arch image')
+  })
+})
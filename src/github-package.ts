@@ -1,23 +1,22 @@
 import * as core from '@actions/core'
 import { Config } from './config'
 
-import axios, { AxiosInstance, isAxiosError, AxiosResponse } from 'axios'
-import axiosRetry from 'axios-retry'
-import { isValidChallenge, parseChallenge } from './utils'
-import { parseManifest, parsePackageVersion } from './parser'
-import { Manifest } from './schemas'
+import { CachingRegistryClient, ManifestCache } from './cache'
+import { parsePackageVersion } from './parser'
+import { ManifestReference, PackageVersion } from './schemas'
+import { GhcrRegistryClient, RegistryClient } from './registry'
 import {
-  OCIImageIndexModel,
-  OCIImageManifestModel,
-  DockerImageManifestModel,
-  DockerManifestListModel,
   PackageVersionType,
   PackageVersionExt,
+  getMediaTypeCategory,
   PackageVersionExtModel,
   ManifestHolder,
-  PackageMetadataHolder
+  PackageMetadataHolder,
+  DockerSchema1ManifestModel,
+  OpaqueManifestModel
 } from './models'
 import { visit, linkVersions, Node } from './tree'
+import { mapWithConcurrency } from './utils'
 
 /**
  * For each version in the given set of versions, finds children of the version via the `children` property of the manifest.
@@ -61,6 +60,45 @@ export function discoverAndLinkReferrers<T extends ManifestHolder & Node<T>>(
     })
 }
 
+/**
+ * For each version in the given set of versions, links the referrers reported by the OCI referrers API as children.
+ *
+ * Referrers without an artifact type of their own take the one from the descriptor.
+ *
+ * @param versions - The set of versions to link referrers for.
+ * @param getVersion - A function that returns a version for a given key.
+ * @returns The linked referrers.
+ */
+export function discoverAndLinkReferrerDescriptors<
+  T extends Node<T> & {
+    referrers: ManifestReference[]
+    artifactType: string | null
+  }
+>(versions: Set<T>, getVersion: (key: string | number) => T | undefined): T[] {
+  const result: T[] = []
+  for (const v0 of versions) {
+    for (const d of v0.referrers) {
+      const v1 = getVersion(d.digest)
+      // Skip referrers already linked, e.g. through their subject.
+      if (v1 === undefined || v1 === v0 || v1.parent != null) continue
+
+      linkVersions(v0, v1)
+      v1.artifactType ??= d.artifactType ?? null
+      result.push(v1)
+    }
+  }
+  return result
+}
+
+// Tags of cosign signatures, attestations and SBOMs, e.g. `sha256-<digest>.sig`, and their suffix.
+const COSIGN_TAG_REGEX = /^sha256-[a-f0-9]{64}\.(sig|att|sbom)$/
+const COSIGN_TAG_SUFFIX = /(?<=^sha256-[a-f0-9]{64})\.(sig|att|sbom)$/
+const COSIGN_TAG_TYPES: Record<string, PackageVersionType> = {
+  sig: 'signature',
+  att: 'attestation',
+  sbom: 'sbom'
+}
+
 export function discoverAndLinkReferrerTags<
   T extends PackageMetadataHolder & Node<T>
 >(versions: Set<T>, getVersion: (key: string | number) => T | undefined): T[] {
@@ -70,7 +108,9 @@ export function discoverAndLinkReferrerTags<
         [
           v0,
           v0.metadata.container.tags
-            .map(t => getVersion(t.replace('-', ':')))
+            .map(t =>
+              getVersion(t.replace(COSIGN_TAG_SUFFIX, '').replace('-', ':'))
+            )
             .filter(v1 => v1 !== undefined && v1 !== v0 && versions.has(v1))
         ] as [T, T[]]
     )
@@ -85,6 +125,31 @@ export function discoverAndLinkReferrerTags<
 export function getArtifactType(v: PackageVersionExt): PackageVersionType {
   const m = v.manifest
 
+  // Manifests of unknown media types are not interpreted any further.
+  if (m instanceof OpaqueManifestModel) {
+    return 'unknown'
+  }
+
+  // Docker schema 1 manifests always describe a single-architecture image, using `fsLayers` instead of `layers`.
+  if (m instanceof DockerSchema1ManifestModel) {
+    return 'single-arch image'
+  }
+
+  // Check if cosign attached the version to another one by tagging it with the digest of the other version.
+  for (const t of v.metadata.container.tags) {
+    const match = COSIGN_TAG_REGEX.exec(t)
+    if (match) {
+      return COSIGN_TAG_TYPES[match[1]]
+    }
+  }
+
+  // Check the artifact type of OCI 1.1 artifacts, e.g. Helm charts or signatures pushed as referrers.
+  const artifactType =
+    v.artifactType != null ? getMediaTypeCategory(v.artifactType) : undefined
+  if (artifactType) {
+    return artifactType
+  }
+
   if (m.layers) {
     // Manifest with layers.
 
@@ -94,8 +159,19 @@ export function getArtifactType(v: PackageVersionExt): PackageVersionType {
       return 'attestation'
     }
 
-    // If it's not an attestation, then it's a regular single-architecture image.
-    return 'single-arch image'
+    // Check if all layers indicate the same kind of artifact, e.g. cosign signatures or Helm charts pushed as images.
+    const layerTypes = new Set(
+      m.layers.map(l => getMediaTypeCategory(l.mediaType))
+    )
+    const [layerType] = layerTypes
+    if (layerTypes.size === 1 && layerType) {
+      return layerType
+    }
+
+    // If it's not an artifact, then it's a regular single-architecture image.
+    if (v.artifactType == null) {
+      return 'single-arch image'
+    }
   }
 
   // Check if an attestation by checking if `subject` is defined.
@@ -103,6 +179,11 @@ export function getArtifactType(v: PackageVersionExt): PackageVersionType {
     return 'attestation'
   }
 
+  // An artifact of unknown type.
+  if (v.artifactType != null) {
+    return 'generic-artifact'
+  }
+
   // Check if an attestation by checking the referrers tag schema, that is if the tag is in the form of `sha256-<digest>`.
   if (
     v.metadata.container.tags.some(t => RegExp(/^sha256-[a-f0-9]{64}$/).exec(t))
@@ -135,6 +216,13 @@ export function scanRoots(
     roots.delete(v)
   }
 
+  for (const v of discoverAndLinkReferrerDescriptors(
+    uniqueVersions,
+    getVersion
+  )) {
+    roots.delete(v)
+  }
+
   // Remove GitHub attestations from root.
   for (const v of discoverAndLinkReferrerTags(roots, getVersion)) {
     roots.delete(v)
@@ -151,15 +239,27 @@ export function scanRoots(
 }
 
 /**
- * Provides access to a package via the GitHub Packages REST API.
+ * Provides access to the versions of a package and deletes tags and versions.
  */
-export class GithubPackageRepo {
+export interface PackageRepo {
+  init(): Promise<void>
+  loadVersions(): Promise<void>
+  getRoots(): Set<PackageVersionExt>
+  getDigests(): string[]
+  getVersions(): PackageVersionExt[]
+  getTags(includeAttestations?: boolean): string[]
+  getVersion(key: string | number): PackageVersionExt | undefined
+  deleteTag(tag: string): Promise<void>
+  deleteVersion(key: string | number): Promise<void>
+}
+
+/**
+ * Keeps track of the versions of a package, independent of where they are loaded from.
+ */
+export abstract class BasePackageRepo implements PackageRepo {
   // The action configuration
   config: Config
 
-  // The type of repository (User or Organization)
-  repoType = 'Organization'
-
   // Maps digest, tag, or id to version.
   versions = new Map<string | number, PackageVersionExt>()
 
@@ -175,156 +275,42 @@ export class GithubPackageRepo {
   // Collection of root versions.
   roots = new Set<PackageVersionExt>()
 
-  // HTTP client.
-  axios: AxiosInstance
+  // Registry client.
+  registry: RegistryClient
+
+  // Manifest cache, if configured.
+  cache?: ManifestCache
 
   /**
    * Constructor.
    *
    * @param config The action configuration
+   * @param registry The registry client
    */
-  constructor(config: Config) {
+  constructor(config: Config, registry: RegistryClient) {
     this.config = config
-
-    // Create HTTP client.
-    this.axios = axios.create({
-      baseURL: 'https://ghcr.io/'
-    })
-    // Set up retries.
-    axiosRetry(this.axios, { retries: 3 })
-    // Set up default request headers.
-    this.axios.defaults.headers.common.Accept =
-      'application/vnd.oci.image.manifest.v1+json, application/vnd.oci.image.index.v1+json, application/vnd.docker.distribution.manifest.list.v2+json, application/vnd.docker.distribution.manifest.v2+json'
-  }
-  /**
-   * Handles the authentication challenge.
-   * @param challenge - The authentication challenge string.
-   * @returns A Promise that resolves when the authentication challenge is handled.
-   * @throws An error if the authentication challenge is invalid or the login fails.
-   */
-  private async handleAuthenticationChallenge(
-    challenge: string
-  ): Promise<string> {
-    // Parse the authentication challenge.
-    const attributes = parseChallenge(challenge)
-
-    // Check if the challenge is valid.
-    if (isValidChallenge(attributes)) {
-      // Try to authenticate using the token from the configuration.
-      const auth = axios.create()
-      axiosRetry(auth, { retries: 3 })
-      const tokenResponse = await auth.get(
-        `${attributes.get('realm')}?service=${attributes.get('service')}&scope=${attributes.get('scope')}`,
-        {
-          auth: {
-            username: 'token',
-            password: this.config.token
-          }
-        }
-      )
-
-      // Try to extract the token from the returned data.
-      const token = tokenResponse.data.token
-
-      if (token) {
-        return token
-      } else {
-        throw new Error(`ghcr.io login failed: ${token.response.data}`)
-      }
+    if (config.manifestCache) {
+      this.cache = new ManifestCache(config.manifestCache)
+      this.registry = new CachingRegistryClient(registry, this.cache)
     } else {
-      throw new Error(`invalid www-authenticate challenge ${challenge}`)
+      this.registry = registry
     }
   }
 
-  /**
-   * Logs in to the registry.
-   * This method retrieves a token and handles authentication challenges if necessary.
-   * @returns A Promise that resolves when the login is successful.
-   * @throws If an error occurs during the login process.
-   */
-  async login(): Promise<void> {
-    try {
-      // get token
-      await this.axios.get(
-        `/v2/${this.config.owner}/${this.config.package}/tags/list`
-      )
-    } catch (error) {
-      if (isAxiosError(error) && error.response != null) {
-        if (error.response?.status === 401) {
-          const challenge = error.response?.headers['www-authenticate']
-          const token = await this.handleAuthenticationChallenge(challenge)
-          this.axios.defaults.headers.common.Authorization = `Bearer ${token}`
-        } else {
-          throw error
-        }
-      }
-    }
-  }
-
-  async init(): Promise<void> {
-    // Determine the repository type (User or Organization).
-    this.repoType = await this.config.getOwnerType()
-    await this.login()
-  }
+  abstract init(): Promise<void>
 
   /**
-   * Loads all versions of the package from the GitHub Packages API and populates the internal maps.
+   * Loads all versions of the package and passes each to the given function.
    */
-  private async fetchVersions(
+  protected abstract fetchVersions(
     fn: (version: PackageVersionExt) => void
-  ): Promise<void> {
-    // Function to retrieve package versions.
-    let fetch
+  ): Promise<void>
 
-    // Parameters for the function call.
-    let fetch_params
+  abstract deleteTag(tag: string): Promise<void>
 
-    if (this.repoType === 'User') {
-      // Use the appropriate function for user repos.
-      fetch = this.config.isPrivateRepo
-        ? this.config.octokit.rest.packages
-            .getAllPackageVersionsForPackageOwnedByAuthenticatedUser
-        : this.config.octokit.rest.packages
-            .getAllPackageVersionsForPackageOwnedByUser
+  abstract deleteVersion(key: string | number): Promise<void>
 
-      // Parameters for the function call.
-      fetch_params = {
-        package_type: 'container',
-        package_name: this.config.package,
-        username: this.config.owner,
-        state: 'active',
-        per_page: 100
-      }
-    } else {
-      fetch =
-        this.config.octokit.rest.packages
-          .getAllPackageVersionsForPackageOwnedByOrg
-
-      // Parameters for the function call.
-      fetch_params = {
-        package_type: 'container',
-        package_name: this.config.package,
-        org: this.config.owner,
-        state: 'active',
-        per_page: 100
-      }
-    }
-
-    // Iterate over all package versions.
-    for await (const response of this.config.octokit.paginate.iterator(
-      fetch,
-      fetch_params
-    )) {
-      for (const packageVersion of response.data) {
-        const version0 = parsePackageVersion(JSON.stringify(packageVersion))
-        const manifest = await this.fetchManifest(version0.name)
-        const version = new PackageVersionExtModel(version0, manifest)
-        fn(version)
-      }
-    }
-  }
-
-  private addVersion(version: PackageVersionExt): void {
+  protected addVersion(version: PackageVersionExt): void {
     this.versions.set(version.name, version)
     this.versions.set(version.id, version)
     this.digests.add(version.name)
@@ -338,6 +324,59 @@ export class GithubPackageRepo {
     this.uniqueVersions.add(version)
   }
 
+  /**
+   * Removes a deleted version from the internal maps and sets.
+   *
+   * @param version The deleted version.
+   */
+  protected removeVersion(version: PackageVersionExt): void {
+    // Remove digest from internal set.
+    this.digests.delete(version.name)
+    this.versions.delete(version.name)
+
+    // Remove tags from internal set.
+    for (const tag of version.metadata.container.tags) {
+      this.tags.delete(tag)
+      this.versions.delete(tag)
+    }
+
+    this.versions.delete(version.id)
+
+    this.uniqueVersions.delete(version)
+
+    // Update the tree incrementally instead of rescanning all versions. Unlink the version from its parent, and make
+    // its children roots.
+    if (version.parent != null) {
+      version.parent.children = version.parent.children.filter(
+        c => c !== version
+      )
+      version.parent = null
+    }
+    for (const child of version.children) {
+      child.parent = null
+      this.roots.add(child)
+    }
+    version.children = []
+    this.roots.delete(version)
+  }
+
+  /**
+   * Removes a deleted tag from its version and the internal maps and sets.
+   *
+   * @param version The version the tag was attached to.
+   * @param tag The deleted tag.
+   */
+  protected removeTag(version: PackageVersionExt, tag: string): void {
+    // Remove the tag from the original version. The original manifest does not need to be adjusted.
+    version.metadata.container.tags = version.metadata.container.tags.filter(
+      t => t !== tag
+    )
+
+    // It should not be necessary, but just to remove the tag cleanly at this point, remove it from the internal maps and sets.
+    this.tags.delete(tag)
+    this.versions.delete(tag)
+  }
+
   getRoots(): Set<PackageVersionExt> {
     return this.roots
   }
@@ -350,11 +389,64 @@ export class GithubPackageRepo {
     this.digests.clear()
 
     await this.fetchVersions(this.addVersion.bind(this))
+    await this.fetchReferrers()
     this.roots = scanRoots(this.uniqueVersions, this.getVersion.bind(this))
 
+    if (this.cache) {
+      core.info(this.cache.formatStats())
+    }
+
     return Promise.resolve()
   }
 
+  /**
+   * Queries the referrers of all versions, if the registry supports the OCI referrers API.
+   *
+   * Referrers that are not versions yet, e.g. untagged artifacts in registries that cannot list them, are loaded via
+   * `loadReferrer`, and their referrers are queried in turn.
+   */
+  protected async fetchReferrers(): Promise<void> {
+    let pending = Array.from(this.uniqueVersions)
+    while (pending.length > 0) {
+      await mapWithConcurrency(pending, this.config.concurrency, async v => {
+        v.referrers = await this.registry.getReferrers(v.name)
+      })
+
+      // Load the referrers that are not versions yet, and query their referrers in the next round.
+      const descriptors = new Map<string, ManifestReference>()
+      for (const v of pending) {
+        for (const d of v.referrers) {
+          if (this.getVersion(d.digest) == null) descriptors.set(d.digest, d)
+        }
+      }
+      const referrers = await mapWithConcurrency(
+        Array.from(descriptors.values()),
+        this.config.concurrency,
+        async d => this.loadReferrer(d)
+      )
+
+      pending = []
+      for (const referrer of referrers) {
+        if (referrer != null) {
+          this.addVersion(referrer)
+          pending.push(referrer)
+        }
+      }
+    }
+  }
+
+  /**
+   * Loads a referrer that is not a version yet.
+   *
+   * @param _descriptor - The descriptor of the referrer.
+   * @returns A Promise that resolves to the version of the referrer, or undefined if it is skipped.
+   */
+  protected async loadReferrer(
+    _descriptor: ManifestReference
+  ): Promise<PackageVersionExt | undefined> {
+    return undefined
+  }
+
   /**
    Return the digests for the package.
    * @returns The digests for the package.
@@ -390,140 +482,182 @@ export class GithubPackageRepo {
   getVersion(key: string | number): PackageVersionExt | undefined {
     return this.versions.get(key)
   }
+}
+
+// Number of attempts and base delay in milliseconds to find the temporary version created when deleting a tag.
+const TEMPORARY_VERSION_ATTEMPTS = 3
+const TEMPORARY_VERSION_DELAY = 1000
+
+// The annotation naming the tag of a temporary version.
+const TEMPORARY_TAG_ANNOTATION = 'ghcr-cleanup-action.deleted-tag'
+
+/**
+ * Provides access to a package via the GitHub Packages REST API.
+ */
+export class GithubPackageRepo extends BasePackageRepo {
+  // The type of repository (User or Organization)
+  repoType = 'Organization'
+
+  // The digests of the temporary versions pushed to delete tags, by tag, until they are deleted.
+  temporaryDigests = new Map<string, string | undefined>()
+
+  /**
+   * Constructor.
+   *
+   * @param config The action configuration
+   */
+  constructor(config: Config) {
+    super(config, new GhcrRegistryClient(config))
+  }
+
+  async init(): Promise<void> {
+    // Determine the repository type (User or Organization).
+    this.repoType = await this.config.getOwnerType()
+    await this.registry.login()
+  }
 
   /**
-   * Delete a package version.
-   * @param id The ID of the package version to delete.
+   * Returns the API function listing the versions of the package and its parameters, depending on the owner.
+   *
+   * The versions are listed from newest to oldest.
    */
-  async deleteVersion(key: string | number): Promise<void> {
-    const version = this.getVersion(key)
+  private getListVersionsRequest(): {
+    fetch: any
+    fetch_params: Record<string, string | number>
+  } {
+    // Function to retrieve package versions.
+    let fetch
 
-    if (version == null) {
-      throw new Error(`Package version not found for key ${key}.`)
-    }
+    // Parameters for the function call.
+    let fetch_params
 
-    const id = version.id
+    if (this.repoType === 'User') {
+      // Use the appropriate function for user repos.
+      fetch = this.config.isPrivateRepo
+        ? this.config.octokit.rest.packages
+            .getAllPackageVersionsForPackageOwnedByAuthenticatedUser
+        : this.config.octokit.rest.packages
+            .getAllPackageVersionsForPackageOwnedByUser
 
-    if (!this.config.dryRun) {
-      if (this.repoType === 'User') {
-        if (this.config.isPrivateRepo) {
-          await this.config.octokit.rest.packages.deletePackageVersionForAuthenticatedUser(
-            {
-              package_type: 'container',
-              package_name: this.config.package,
-              package_version_id: id
-            }
-          )
-        } else {
-          await this.config.octokit.rest.packages.deletePackageVersionForUser({
-            package_type: 'container',
-            package_name: this.config.package,
-            username: this.config.owner,
-            package_version_id: id
-          })
-        }
-      } else {
-        await this.config.octokit.rest.packages.deletePackageVersionForOrg({
-          package_type: 'container',
-          package_name: this.config.package,
-          org: this.config.owner,
-          package_version_id: id
-        })
+      // Parameters for the function call.
+      fetch_params = {
+        package_type: 'container',
+        package_name: this.config.package,
+        username: this.config.owner,
+        state: 'active',
+        per_page: 100
       }
-    }
-
-    // Remove digest from internal set.
-    this.digests.delete(version.name)
-    this.versions.delete(version.name)
+    } else {
+      fetch =
+        this.config.octokit.rest.packages
+          .getAllPackageVersionsForPackageOwnedByOrg
 
-    // Remove tags from internal set.
-    for (const tag of version.metadata.container.tags) {
-      this.tags.delete(tag)
-      this.versions.delete(tag)
+      // Parameters for the function call.
+      fetch_params = {
+        package_type: 'container',
+        package_name: this.config.package,
+        org: this.config.owner,
+        state: 'active',
+        per_page: 100
+      }
     }
 
-    this.versions.delete(id)
+    return { fetch, fetch_params }
+  }
 
-    this.uniqueVersions.delete(version)
+  /**
+   * Loads all versions of the package from the GitHub Packages API and populates the internal maps.
+   */
+  protected async fetchVersions(
+    fn: (version: PackageVersionExt) => void
+  ): Promise<void> {
+    const { fetch, fetch_params } = this.getListVersionsRequest()
 
-    this.roots = scanRoots(this.uniqueVersions, this.getVersion.bind(this))
+    // Iterate over all package versions.
+    for await (const response of this.config.octokit.paginate.iterator(
+      fetch,
+      fetch_params
+    )) {
+      // Fetch the manifests of the page concurrently, but add the versions in order.
+      const versions = await mapWithConcurrency(
+        response.data,
+        this.config.concurrency,
+        async packageVersion => {
+          const version0 = parsePackageVersion(JSON.stringify(packageVersion))
+          const manifest = await this.registry.getManifest(version0.name)
+          return new PackageVersionExtModel(version0, manifest)
+        }
+      )
+      for (const version of versions) {
+        fn(version)
+      }
+    }
   }
 
   /**
-   * Retrieves a manifest by its digest.
-   *
-   * @param digest - The digest of the manifest to retrieve.
-   * @returns A Promise that resolves to the retrieved manifest.
+   * Delete a package version.
+   * @param id The ID of the package version to delete.
    */
-  private async fetchManifest(digest: string): Promise<Manifest> {
-    // Retrieve the manifest.
-    const response: AxiosResponse<Manifest> = await this.axios.get<Manifest>(
-      `/v2/${this.config.owner}/${this.config.package}/manifests/${digest}`
-    )
+  async deleteVersion(key: string | number): Promise<void> {
+    const version = this.getVersion(key)
 
-    // Assume default mediaType if not present.
-    if (response?.data && !response?.data['mediaType']) {
-      response.data['mediaType'] = 'application/vnd.oci.image.index.v1+json'
+    if (version == null) {
+      throw new Error(`Package version not found for key ${key}.`)
     }
 
-    const manifest:
-      | OCIImageIndexModel
-      | OCIImageManifestModel
-      | DockerImageManifestModel
-      | DockerManifestListModel = parseManifest(JSON.stringify(response?.data))
+    if (!this.config.dryRun) {
+      await this.deletePackageVersion(version.id)
+    }
 
-    return manifest as Manifest
+    this.removeVersion(version)
   }
 
   /**
-   * Puts the manifest for a given tag in the registry.
-   * @param tag - The tag of the manifest.
-   * @param manifest - The manifest to be put.
-   * @param multiArch - A boolean indicating whether the manifest is for a multi-architecture image.
-   * @returns A Promise that resolves when the manifest is successfully put in the registry.
+   * Deletes a package version through the GitHub Packages API.
+   *
+   * @param id - The ID of the package version.
    */
-  private async putManifest(tag: string, manifest: any): Promise<void> {
-    if (!this.config.dryRun) {
-      const contentType = manifest.mediaType
-      const config = {
-        headers: {
-          'Content-Type': contentType
-        }
-      }
-
-      const auth = axios.create()
-      try {
-        // Try to put the manifest without token.
-        const response = await auth.put(
-          `https://ghcr.io/v2/${this.config.owner}/${this.config.package}/manifests/${tag}`,
-          manifest,
-          config
+  private async deletePackageVersion(id: number): Promise<void> {
+    if (this.repoType === 'User') {
+      if (this.config.isPrivateRepo) {
+        await this.config.octokit.rest.packages.deletePackageVersionForAuthenticatedUser(
+          {
+            package_type: 'container',
+            package_name: this.config.package,
+            package_version_id: id
+          }
         )
-        core.debug(`New digest: ${response.headers['docker-content-digest']}`)
-      } catch (error) {
-        if (isAxiosError(error) && error.response?.status === 401) {
-          const token = await this.handleAuthenticationChallenge(
-            error.response?.headers['www-authenticate']
-          )
-
-          const response = await this.axios.put(
-            `/v2/${this.config.owner}/${this.config.package}/manifests/${tag}`,
-            manifest,
-            {
-              headers: {
-                'content-type': contentType,
-                Authorization: `Bearer ${token}`
-              }
-            }
-          )
-          core.debug(`New digest: ${response.headers['docker-content-digest']}`)
-        } else {
-          throw error
-        }
+      } else {
+        await this.config.octokit.rest.packages.deletePackageVersionForUser({
+          package_type: 'container',
+          package_name: this.config.package,
+          username: this.config.owner,
+          package_version_id: id
+        })
       }
+    } else {
+      await this.config.octokit.rest.packages.deletePackageVersionForOrg({
+        package_type: 'container',
+        package_name: this.config.package,
+        org: this.config.owner,
+        package_version_id: id
+      })
     }
   }
 
+  /**
+   * Delete a tag.
+   *
+   * The GitHub Packages API cannot delete tags. Instead, a stripped copy of the manifest is pushed with the tag, which
+   * moves the tag to a new temporary version, and the temporary version is deleted.
+   *
+   * The deletion can be resumed: if the temporary version cannot be found or deleted, the error names its digest, and
+   * the next attempt deletes the version pushed before instead of pushing another one. This also holds for a later
+   * run, which recognizes the temporary version the tag was left on by its annotation. The tag is only detached once
+   * the temporary version is gone.
+   *
+   * @param tag The tag to delete.
+   */
   async deleteTag(tag: string): Promise<void> {
     // Get the version for the tag.
     const version = this.getVersion(tag)
@@ -533,55 +667,115 @@ export class GithubPackageRepo {
     }
 
     if (!this.config.dryRun) {
-      // Clone the manifest.
-      const manifest0 = JSON.parse(JSON.stringify(version.manifest))
-
-      // Make manifest0 into a fake manifest that does not point to any other manifests or layers.
-      // Push the manifest with the given tag to the registry. This creates a new version with the
-      // tag and removes it from the original version.
-      if (manifest0.manifests) {
-        // Multi-arch manifest. Remove any pointers to child manifests.
-        manifest0.manifests = []
-      } else {
-        // Single-architecture or attestation manifest. Remove any pointers to layers.
-        manifest0.layers = []
+      const annotations = version.manifest.annotations as
+        | Record<string, string>
+        | undefined
+      if (annotations?.[TEMPORARY_TAG_ANNOTATION] === tag) {
+        // The tag was left on a temporary version by a previous run.
+        this.temporaryDigests.set(tag, version.name)
       }
 
-      await this.putManifest(tag, manifest0)
-    }
-
-    // Remove the tag from the original version. The original manifest does not need to be adjusted.
-    version.metadata.container.tags = version.metadata.container.tags.filter(
-      t => t !== tag
-    )
+      if (!this.temporaryDigests.has(tag)) {
+        // Clone the manifest.
+        const manifest0 = JSON.parse(JSON.stringify(version.manifest))
+
+        // Make manifest0 into a fake manifest that does not point to any other manifests or layers.
+        // Push the manifest with the given tag to the registry. This creates a new version with the
+        // tag and removes it from the original version.
+        if (version.manifest instanceof DockerSchema1ManifestModel) {
+          // Schema 1 manifests are signed, a stripped copy would not be accepted.
+          throw new Error(
+            `Tag ${tag} of a Docker schema 1 manifest cannot be deleted.`
+          )
+        } else if (manifest0.manifests) {
+          // Multi-arch manifest. Remove any pointers to child manifests.
+          manifest0.manifests = []
+        } else if (manifest0.blobs) {
+          // OCI artifact manifest. Remove any pointers to blobs.
+          manifest0.blobs = []
+        } else {
+          // Single-architecture or attestation manifest. Remove any pointers to layers.
+          manifest0.layers = []
+        }
+        // Name the tag, so that the temporary versions of tags of the same version have different digests.
+        manifest0.annotations = {
+          ...manifest0.annotations,
+          [TEMPORARY_TAG_ANNOTATION]: tag
+        }
 
-    // It should not be necessary, but just to remove the tag cleanly at this point, remove it from the internal maps and sets.
-    this.tags.delete(tag)
-    this.versions.delete(tag)
+        this.temporaryDigests.set(
+          tag,
+          await this.registry.putManifest(tag, manifest0)
+        )
+      }
 
-    if (!this.config.dryRun) {
-      // Fetch the new version for the tag.
-      const fn = (version_: PackageVersionExt): void => {
-        if (version_.metadata.container.tags.includes(tag)) {
-          this.addVersion(version_)
-        }
+      // Find the temporary version, which is among the newest versions, and delete it.
+      const digest = this.temporaryDigests.get(tag)
+      try {
+        const version0 =
+          digest === version.name
+            ? version
+            : await this.findTemporaryVersion(tag, digest)
+        core.debug(JSON.stringify(version0, null, 2))
+        await this.deletePackageVersion(version0.id)
+      } catch (error) {
+        // Keep the status of the error, which decides whether the deletion is retried.
+        throw Object.assign(
+          new Error(
+            `Temporary version ${digest ?? 'with the tag'} could not be deleted, tag ${tag} is left on it: ${error instanceof Error ? error.message : error}`
+          ),
+          { status: (error as { status?: number }).status }
+        )
       }
+      this.temporaryDigests.delete(tag)
 
-      // Reload the package repository to update the version cache.
-      await this.fetchVersions(fn.bind(this))
+      if (digest === version.name) {
+        // The temporary version the tag was left on is gone with the tag.
+        this.removeVersion(version)
+        return
+      }
+    }
 
-      // Get the new version for the tag.
-      const version0 = this.getVersion(tag)
+    this.removeTag(version, tag)
+  }
 
-      if (version0) {
-        core.debug(JSON.stringify(version0, null, 2))
-        // Delete the temporary version.
-        await this.deleteVersion(tag)
-      } else {
-        throw new Error(
-          `Intermediate version used to delete tag ${tag} not found.`
+  /**
+   * Finds the temporary version created by pushing a manifest to delete a tag.
+   *
+   * Only the first page of versions is searched, since versions are listed from newest to oldest. The listing may lag
+   * behind the registry, so the search is repeated a few times.
+   *
+   * @param tag - The tag that was pushed.
+   * @param digest - The digest of the pushed manifest, as reported by the registry.
+   * @returns A Promise that resolves to the temporary version.
+   */
+  private async findTemporaryVersion(
+    tag: string,
+    digest: string | undefined
+  ): Promise<PackageVersion> {
+    const { fetch, fetch_params } = this.getListVersionsRequest()
+
+    for (let attempt = 0; attempt < TEMPORARY_VERSION_ATTEMPTS; attempt++) {
+      if (attempt > 0) {
+        await new Promise(resolve =>
+          setTimeout(resolve, TEMPORARY_VERSION_DELAY * attempt)
         )
       }
+
+      const response = await fetch({ ...fetch_params, page: 1 })
+      for (const packageVersion of response.data) {
+        const version0 = parsePackageVersion(JSON.stringify(packageVersion))
+        // Without a digest reported by the registry, rely on the tag.
+        if (
+          digest != null
+            ? version0.name === digest
+            : version0.metadata.container.tags.includes(tag)
+        ) {
+          return version0
+        }
+      }
     }
+
+    throw new Error(`Intermediate version used to delete tag ${tag} not found.`)
   }
 }
@@ -0,0 +1,118 @@
+import type { Config } from './config'
+import {
+  findClosedPullRequestTags,
+  findDeletedBranchTags,
+  sanitizeBranchName,
+  templateToRegExp,
+  validateTemplate
+} from './github-refs'
+
+/**
+ * Creates a configuration whose Octokit instance serves the given pull requests and branches.
+ */
+const createConfig = (
+  pulls: Record<number, string>,
+  branches: string[]
+): Config & { requests: number } => {
+  const listBranches = jest.fn()
+  const config = {
+    owner: 'owner',
+    repository: 'repo',
+    requests: 0
+  } as unknown as Config & { requests: number }
+  config.octokit = {
+    rest: {
+      pulls: {
+        get: async ({ pull_number }: { pull_number: number }) => {
+          config.requests++
+          if (pulls[pull_number] == null) {
+            throw Object.assign(new Error('Not Found'), { status: 404 })
+          }
+          return { data: { state: pulls[pull_number] } }
+        }
+      },
+      repos: { listBranches }
+    },
+    paginate: {
+      async *iterator(fn: unknown) {
+        expect(fn).toBe(listBranches)
+        config.requests++
+        yield { data: branches.map(name => ({ name })) }
+      }
+    }
+  }
+  return config
+}
+
+describe('templateToRegExp', () => {
+  it('should match pull request numbers', () => {
+    const regex = templateToRegExp('pr-{number}')
+    expect(regex.exec('pr-12')?.groups?.number).toBe('12')
+    expect(regex.test('pr-12-abc')).toBe(false)
+    expect(regex.test('pr-x')).toBe(false)
+  })
+
+  it('should match branch names and wildcards', () => {
+    const regex = templateToRegExp('branch-{name}-*')
+    expect(regex.exec('branch-main-abc123')?.groups?.name).toBe('main')
+    expect(regex.test('branch.main-abc123')).toBe(false)
+  })
+})
+
+describe('validateTemplate', () => {
+  it('should require the placeholder', () => {
+    expect(() => validateTemplate('pull-request', 'pr-{number}')).not.toThrow()
+    expect(() => validateTemplate('pull-request', 'pr-{name}')).toThrow(
+      'tag template pr-{name} must contain {number}'
+    )
+    expect(() => validateTemplate('branch', 'branch-*')).toThrow(
+      'tag template branch-* must contain {name}'
+    )
+  })
+})
+
+describe('sanitizeBranchName', () => {
+  it('should replace characters not allowed in tags', () => {
+    expect(sanitizeBranchName('feature/new-ui')).toBe('feature-new-ui')
+    expect(sanitizeBranchName('v1.2_fix')).toBe('v1.2_fix')
+  })
+})
+
+describe('findClosedPullRequestTags', () => {
+  it('should return the tags of closed pull requests', async () => {
+    const config = createConfig({ 1: 'open', 2: 'closed' }, [])
+    const tags = await findClosedPullRequestTags(config, 'pr-{number}-*', [
+      'pr-1-a',
+      'pr-2-a',
+      'pr-2-b',
+      'pr-3-a',
+      'latest'
+    ])
+
+    expect(tags).toEqual(['pr-2-a', 'pr-2-b'])
+    // Each pull request is only queried once.
+    expect(config.requests).toBe(3)
+  })
+})
+
+describe('findDeletedBranchTags', () => {
+  it('should return the tags of deleted branches', async () => {
+    const config = createConfig({}, ['main', 'feature/a'])
+    const tags = await findDeletedBranchTags(config, 'branch-{name}', [
+      'branch-main',
+      'branch-feature-a',
+      'branch-feature-b',
+      'latest'
+    ])
+
+    expect(tags).toEqual(['branch-feature-b'])
+  })
+
+  it('should not list branches without matching tags', async () => {
+    const config = createConfig({}, [])
+    expect(await findDeletedBranchTags(config, 'branch-{name}', ['x'])).toEqual(
+      []
+    )
+    expect(config.requests).toBe(0)
+  })
+})
@@ -0,0 +1,209 @@
+import * as core from '@actions/core'
+import type { Config } from './config'
+import { Rule } from './policy'
+
+/**
+ * The kinds of git references whose tags can be deleted once they are gone.
+ *
+ * - `pull-request`: tags of pull requests that are closed, with the placeholder `{number}`.
+ * - `branch`: tags of branches that no longer exist, with the placeholder `{name}`.
+ */
+export type StaleRefType = 'pull-request' | 'branch'
+
+const PLACEHOLDERS: Record<StaleRefType, string> = {
+  'pull-request': '{number}',
+  branch: '{name}'
+}
+
+/**
+ * Converts a tag template into a regular expression.
+ *
+ * The placeholder `{number}` matches the number of a pull request and `{name}` the name of a branch. `*` matches any
+ * sequence of characters. The expression matches whole tags only.
+ *
+ * @param template - The tag template, e.g. `pr-{number}` or `branch-{name}-*`.
+ * @returns The regular expression with the named capture group `number` or `name`.
+ */
+export function templateToRegExp(template: string): RegExp {
+  const source = template
+    .split(/(\{number\}|\{name\}|\*)/)
+    .map(part => {
+      if (part === '{number}') return '(?<number>\\d+)'
+      if (part === '{name}') return '(?<name>[A-Za-z0-9_.-]+?)'
+      if (part === '*') return '.*'
+      return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    })
+    .join('')
+
+  return new RegExp(`^${source}$`)
+}
+
+/**
+ * Validates a tag template for the given kind of reference.
+ *
+ * @param type - The kind of reference.
+ * @param template - The tag template.
+ * @throws An error if the template lacks the placeholder for the kind of reference.
+ */
+export function validateTemplate(type: StaleRefType, template: string): void {
+  if (!template.includes(PLACEHOLDERS[type])) {
+    throw new Error(
+      `tag template ${template} must contain ${PLACEHOLDERS[type]}`
+    )
+  }
+}
+
+/**
+ * Converts a branch name into the form used in tags.
+ *
+ * Tags may only contain letters, digits, `_`, `.` and `-`, so other characters, e.g. the `/` in `feature/x`, are
+ * replaced by `-` like `docker/metadata-action` does.
+ *
+ * @param branch - The branch name.
+ * @returns The branch name as used in tags.
+ */
+export function sanitizeBranchName(branch: string): string {
+  return branch.replace(/[^A-Za-z0-9_.-]/g, '-')
+}
+
+/**
+ * Determines the tags of pull requests that are closed.
+ *
+ * Each pull request is only queried once. Tags of pull requests that cannot be found are kept.
+ *
+ * @param config - The action configuration.
+ * @param template - The tag template with the placeholder `{number}`.
+ * @param tags - The tags to check.
+ * @returns A Promise that resolves to the tags of closed pull requests.
+ */
+export async function findClosedPullRequestTags(
+  config: Config,
+  template: string,
+  tags: string[]
+): Promise<string[]> {
+  const regex = templateToRegExp(template)
+
+  // The state of each pull request.
+  const states = new Map<number, string | null>()
+  const result: string[] = []
+
+  for (const tag of tags) {
+    const match = regex.exec(tag)
+    if (!match?.groups) continue
+
+    const number = parseInt(match.groups.number)
+    if (!states.has(number)) {
+      try {
+        const response = await config.octokit.rest.pulls.get({
+          owner: config.owner,
+          repo: config.repository,
+          pull_number: number
+        })
+        states.set(number, response.data.state)
+      } catch (error) {
+        if ((error as { status?: number }).status !== 404) throw error
+        core.warning(
+          `Pull request #${number} of tag ${tag} not found in ${config.owner}/${config.repository}.`
+        )
+        states.set(number, null)
+      }
+    }
+
+    if (states.get(number) === 'closed') {
+      result.push(tag)
+    }
+  }
+
+  return result
+}
+
+/**
+ * Determines the tags of branches that no longer exist.
+ *
+ * @param config - The action configuration.
+ * @param template - The tag template with the placeholder `{name}`.
+ * @param tags - The tags to check.
+ * @returns A Promise that resolves to the tags of deleted branches.
+ */
+export async function findDeletedBranchTags(
+  config: Config,
+  template: string,
+  tags: string[]
+): Promise<string[]> {
+  const regex = templateToRegExp(template)
+
+  const matching = tags.filter(tag => regex.test(tag))
+  if (matching.length === 0) return []
+
+  // Only list the branches if there are tags to check.
+  const branches = new Set<string>()
+  for await (const response of config.octokit.paginate.iterator(
+    config.octokit.rest.repos.listBranches,
+    {
+      owner: config.owner,
+      repo: config.repository,
+      per_page: 100
+    }
+  )) {
+    for (const b of response.data) {
+      branches.add(sanitizeBranchName(b.name))
+    }
+  }
+
+  return matching.filter(tag => {
+    const name = regex.exec(tag)?.groups?.name
+    return name != null && !branches.has(name)
+  })
+}
+
+/**
+ * Resolves rules that select the tags of stale references into rules that select these tags explicitly.
+ *
+ * Other rules are returned as is.
+ *
+ * @param config - The action configuration.
+ * @param rules - The ordered list of rules.
+ * @param tags - All tags of the package.
+ * @returns A Promise that resolves to the ordered list of resolved rules.
+ */
+export async function resolveStaleRefRules(
+  config: Config,
+  rules: Rule[],
+  tags: string[]
+): Promise<Rule[]> {
+  const result: Rule[] = []
+
+  for (const rule of rules) {
+    if (rule.staleRefs == null) {
+      result.push(rule)
+      continue
+    }
+
+    const { type, template } = rule.staleRefs
+    core.startGroup(
+      type === 'pull-request'
+        ? `Determine tags of closed pull requests matching ${template}.`
+        : `Determine tags of deleted branches matching ${template}.`
+    )
+    const stale =
+      type === 'pull-request'
+        ? await findClosedPullRequestTags(config, template, tags)
+        : await findDeletedBranchTags(config, template, tags)
+    if (stale.length > 0) {
+      for (const tag of stale) {
+        core.info(`- ${tag}`)
+      }
+    } else {
+      core.info('  none')
+    }
+    core.endGroup()
+
+    result.push({
+      ...rule,
+      tags: templateToRegExp(template).source,
+      tagList: stale
+    })
+  }
+
+  return result
+}
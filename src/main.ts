@@ -1,86 +1,245 @@
 import * as core from '@actions/core'
 import { Config, getConfig } from './config'
-import { GithubPackageRepo, scanRoots } from './github-package'
-import { PackageVersionExt } from './models'
+import { GithubPackageRepo, PackageRepo, scanRoots } from './github-package'
+import { OciPackageRepo } from './oci-package'
+import {
+  Deployment,
+  findDeployedReferences,
+  listDeployments
+} from './deployments'
+import { logItems, RuleEngine } from './engine'
+import { resolveStaleRefRules } from './github-refs'
+import { formatDecision, PackageVersionExt } from './models'
 import { renderTree } from './tree'
+import {
+  buildPackagePlan,
+  PackagePlan,
+  Plan,
+  recordDeletions,
+  writePlanFile
+} from './plan'
+import { addSummary } from './summary'
+import { DeletionExecutor, DeletionJournal, formatFailures } from './executor'
 
 export async function run(): Promise<void> {
   try {
-    // Instantiate action class.
-    const action = new CleanupAction()
-    // Initialization work.
-    await action.init()
-    // Run the actual action.
-    await action.run()
+    // Get action configuration.
+    const config = getConfig()
+
+    // Clean up the packages.
+    const results = await cleanup(config)
+
+    logResults(config, results)
+    setOutputs(config.dryRun ?? false, results)
+
+    const plan = createPlan(config, results)
+
+    if (config.planFile) {
+      writePlanFile(config.planFile, plan)
+      core.info(`Wrote deletion plan to ${config.planFile}.`)
+    }
+
+    // The job summary is only available when running in a workflow.
+    if (config.summary && process.env.GITHUB_STEP_SUMMARY) {
+      addSummary(
+        plan,
+        new Map(
+          results
+            .filter(r => r.error != null)
+            .map(r => [r.package, r.error as string])
+        )
+      )
+      await core.summary.write()
+    }
+
+    const failed = results.filter(r => r.error != null)
+    if (failed.length > 0) {
+      core.setFailed(
+        failed
+          .map(r => `Cleanup of package ${r.package} failed: ${r.error}`)
+          .join('\n')
+      )
+    }
   } catch (error) {
     // Fail the workflow run if an error occurs.
     if (error instanceof Error) core.setFailed(error.message)
   }
 }
 
-class CleanupAction {
-  private VersionSet = class {
-    tags: string[] = []
-    versions: PackageVersionExt[] = []
-    parent: CleanupAction
-
-    constructor(parent: CleanupAction) {
-      this.parent = parent
+/**
+ * Cleans up all configured packages.
+ *
+ * A failure of one package does not prevent the cleanup of the others, it is recorded in the result of the package.
+ *
+ * @param config - The configuration.
+ * @returns The results for each package.
+ */
+export async function cleanup(config: Config): Promise<CleanupResult[]> {
+  // Determine the packages to clean up.
+  const packages = await config.resolvePackages()
+
+  // The deployments are those of the repository, so they are listed once for all packages.
+  const deployments =
+    config.protectDeployedWithin != null
+      ? await listDeployments(config, config.protectDeployedWithin)
+      : undefined
+
+  // The results for each package.
+  const results: CleanupResult[] = []
+
+  for (const name of packages) {
+    try {
+      // Instantiate action class for the package.
+      const action = new CleanupAction(config.forPackage(name), deployments)
+      // Initialization work.
+      await action.init()
+      // Run the actual action.
+      results.push(await action.run())
+    } catch (error) {
+      // Continue with the next package, but remember the failure.
+      const message = error instanceof Error ? error.message : `${error}`
+      core.error(`Cleanup of package ${name} failed: ${message}`)
+      results.push({
+        package: name,
+        tags: [],
+        versions: [],
+        kept: 0,
+        error: message
+      })
     }
+  }
 
-    addVersions(
-      versions: PackageVersionExt | Iterable<PackageVersionExt>
-    ): this {
-      // Ensure that version is an array.
-      const versions0: Iterable<PackageVersionExt> =
-        Symbol.iterator in versions ? versions : [versions]
-
-      for (const v of versions0) {
-        const c = this.parent.getClosure(v.name)
-
-        for (const v0 of c) {
-          // Add the version to the list.
-          if (!this.versions.includes(v0)) this.versions.push(v0)
-
-          // Add each tag to the list of tags as well.
-          for (const t of v0.metadata.container.tags) {
-            if (!this.tags.includes(t)) this.tags.push(t)
-          }
-        }
-      }
+  return results
+}
 
-      return this
-    }
+/**
+ * Collects the deletion plans of all packages.
+ *
+ * @param config - The configuration.
+ * @param results - The results for each package.
+ * @returns The deletion plan.
+ */
+export function createPlan(config: Config, results: CleanupResult[]): Plan {
+  return {
+    dryRun: config.dryRun ?? false,
+    packages: results
+      .map(r => r.plan)
+      .filter((p): p is PackagePlan => p != null)
+  }
+}
 
-    addTags(tags: string | Iterable<string>): this {
-      const tags0: Iterable<string> = typeof tags === 'string' ? [tags] : tags
+/**
+ * The outcome of cleaning up a single package.
+ */
+export interface CleanupResult {
+  // The package name.
+  package: string
+  // The deleted tags.
+  tags: string[]
+  // The deleted versions.
+  versions: PackageVersionExt[]
+  // The number of kept versions.
+  kept: number
+  // The deletion plan.
+  plan?: PackagePlan
+  // The error message, if the cleanup failed.
+  error?: string
+}
 
-      for (const t of tags0) {
-        const v = this.parent.repo.getVersion(t)
+/**
+ * Sets the action outputs from the results for all packages.
+ *
+ * The `deleted-*` outputs only report actual deletions, so they are empty in dry-run mode. The `would-delete-*`
+ * outputs report the planned deletions in either mode.
+ *
+ * @param dryRun - Whether nothing was deleted.
+ * @param results - The results for each package.
+ */
+export function setOutputs(dryRun: boolean, results: CleanupResult[]): void {
+  const tags = dryRun ? [] : results.flatMap(r => r.tags)
+  const digests = dryRun
+    ? []
+    : results.flatMap(r => r.versions.map(v => v.name))
+
+  core.setOutput('deleted-tags', JSON.stringify(tags))
+  core.setOutput('deleted-digests', JSON.stringify(digests))
+  core.setOutput('deleted-count', digests.length)
+  core.setOutput(
+    'kept-count',
+    results.reduce(
+      (n, r) => n + (dryRun ? (r.plan?.versions.length ?? 0) : r.kept),
+      0
+    )
+  )
+
+  const planned = results
+    .map(r => r.plan)
+    .filter((p): p is PackagePlan => p != null)
+  const plannedDigests = planned.flatMap(p =>
+    p.versions.filter(v => v.action === 'delete').map(v => v.digest)
+  )
+  core.setOutput(
+    'would-delete-tags',
+    JSON.stringify(planned.flatMap(p => p.tags.delete))
+  )
+  core.setOutput('would-delete-digests', JSON.stringify(plannedDigests))
+  core.setOutput('would-delete-count', plannedDigests.length)
+}
 
-        if (v) {
-          if (!this.tags.includes(t)) {
-            this.tags.push(t)
-          }
+/**
+ * Formats the result for a single package.
+ *
+ * @param owner - The package owner.
+ * @param r - The result for the package.
+ * @returns The line describing the result.
+ */
+export function formatResult(owner: string, r: CleanupResult): string {
+  if (r.error != null && r.plan != null) {
+    // Some deletions failed, but others may have succeeded.
+    return `${owner}/${r.package}: deleted ${r.tags.length} tags and ${r.versions.length} versions, failed (${r.error})`
+  } else if (r.error != null) {
+    return `${owner}/${r.package}: failed (${r.error})`
+  } else {
+    return `${owner}/${r.package}: deleted ${r.tags.length} tags and ${r.versions.length} versions`
+  }
+}
 
-          this.addVersions(v)
-        }
-      }
-      return this
-    }
+/**
+ * Logs the results for all packages.
+ *
+ * @param config - The action configuration.
+ * @param results - The results for each package.
+ */
+function logResults(config: Config, results: CleanupResult[]): void {
+  core.startGroup('Results.')
+  if (results.length === 0) {
+    core.info('No packages to clean up.')
   }
+  for (const r of results) {
+    core.info(`- ${formatResult(config.owner, r)}`)
+  }
+  core.endGroup()
+}
 
+export class CleanupAction {
   // Configuration.
   config: Config
 
   // Provides access to the package repository.
-  repo: GithubPackageRepo
+  repo: PackageRepo
 
-  constructor() {
-    // Get action configuration.
-    this.config = getConfig()
+  // The deployments whose images to protect, if already listed.
+  deployments?: Deployment[]
+
+  constructor(config: Config, deployments?: Deployment[]) {
+    // Action configuration for a single package.
+    this.config = config
+    this.deployments = deployments
     // Initialize registry and package repository.
-    this.repo = new GithubPackageRepo(this.config)
+    this.repo =
+      this.config.registryType === 'oci'
+        ? new OciPackageRepo(this.config)
+        : new GithubPackageRepo(this.config)
   }
 
   async init(): Promise<void> {
@@ -89,333 +248,195 @@ class CleanupAction {
   }
 
   /**
-   * Filters the given array of items based on a regular expression.
+   * Logs the trees below the given root versions.
    *
-   * Used to match tags against a regular expression.
-   *
-   * @param regexStr - The regular expression string to match against the items.
-   * @param items - The array of items to filter.
-   * @returns An array of items that match the regular expression.
+   * @param roots - The root versions.
+   * @param explain - Whether to append the decision for each version.
    */
-  matchItems(regexStr: string, items: string[]): string[] {
-    // The result.
-    let result: string[] = []
-
-    // Compile regular expression.
-    const regex = new RegExp(regexStr)
-    // Filter items based on regular expression.
-    result = items.filter(item => regex.test(item))
-
-    return result
+  logTree(roots: Iterable<PackageVersionExt>, explain = false): void {
+    for (const r of roots) {
+      renderTree<PackageVersionExt>(
+        r,
+        v => v.children,
+        (v, prefix) => {
+          const suffix = explain ? `: ${formatDecision(v.decision)}` : ''
+          core.info(`${v.parent == null ? '- ' : '  '}${prefix} ${v}${suffix}`)
+        }
+      )
+    }
   }
 
   /**
-   * Retrieves the digests reachable from a given digest.
+   * Keeps the tags and versions referenced by deployments of the repository.
    *
-   * The result includes the given digest as well.
+   * Since these are kept before any rule is evaluated, no rule selects them.
    *
-   * @param digest - The digest for which to retrieve the reachable digests.
-   * @returns The set of digests of reachable digests.
+   * @param engine - The rule engine.
+   * @param within - The time window in milliseconds for deployments to consider.
    */
-  getClosure(key: string | Iterable<string>): PackageVersionExt[] {
-    // Convert key to an array.
-    const keys: Iterable<string> = typeof key === 'string' ? [key] : key
-
-    // The result.
-    const result: PackageVersionExt[] = []
-
-    // Loop over all keys.
-    for (const key0 of keys) {
-      // Get the version for the given key.
-      const version = this.repo.getVersion(key0)
-
-      if (!version) continue
-
-      // Add the digest of the version to the result.
-      result.push(version)
-
-      // Recursively get all reachable versions.
-      for (const child of version.children) {
-        // Get reachable versions for current child.
-        const reachable = this.getClosure(child.name)
-        // Add all reachable versions to result.
-        for (const i of reachable) {
-          result.push(i)
-        }
-      }
-    }
-
-    return result
+  async protectDeployments(engine: RuleEngine, within: number): Promise<void> {
+    core.startGroup('Protect images referenced by deployments.')
+
+    this.deployments ??= await listDeployments(this.config, within)
+    const deployed = findDeployedReferences(
+      this.deployments,
+      this.config.package
+    )
+    const tags = deployed.tags.filter(t => this.repo.getVersion(t) != null)
+    const versions = deployed.digests
+      .map(d => this.repo.getVersion(d))
+      .filter((v): v is PackageVersionExt => v != null)
+
+    core.info('Keeping deployed tags:')
+    logItems(tags)
+    engine.keep.addTags(tags, { rule: 'protect-deployed-within' })
+
+    core.info('Keeping deployed versions:')
+    logItems(versions)
+    engine.keep.addVersions(versions, { rule: 'protect-deployed-within' })
+
+    core.endGroup()
   }
 
-  logItems(items: string[] | PackageVersionExt[]): void {
-    if (items.length > 0) {
-      for (const item of items) {
-        core.info(`- ${item}`)
-      }
-    } else {
-      core.info('  none')
+  async run(): Promise<CleanupResult> {
+    // Load package versions.
+    core.startGroup('Load package versions.')
+    core.info(
+      `Loading package versions for ${this.config.owner}/${this.config.package}.`
+    )
+
+    // Load versions.
+    await this.repo.loadVersions()
+
+    // Log total number of version retrieved.
+    this.logTree(this.repo.getRoots())
+
+    core.endGroup()
+
+    // Evaluate the retention rules in order. Each rule selects from the tags and untagged versions not selected by a
+    // previous rule, and adds them and all versions reachable from them to the set of tags/versions to keep or to
+    // delete. Tags and versions selected for both are kept.
+    const rules = await resolveStaleRefRules(
+      this.config,
+      this.config.rules,
+      this.repo.getTags()
+    )
+    const engine = new RuleEngine(this.repo)
+
+    if (this.config.protectDeployedWithin != null) {
+      await this.protectDeployments(engine, this.config.protectDeployedWithin)
     }
-  }
 
-  async run(): Promise<void> {
-    try {
-      // Load package versions.
-      core.startGroup('Load package versions.')
-      core.info(
-        `Loading package versions for ${this.config.owner}/${this.config.package}.`
-      )
+    const { tags: tagsDelete, versions: versionsDelete } =
+      engine.evaluate(rules)
 
-      // Load versions.
-      await this.repo.loadVersions()
-
-      // Log total number of version retrieved.
-      {
-        const roots = this.repo.getRoots()
-
-        for (const r of roots) {
-          renderTree<PackageVersionExt>(
-            r,
-            v => v.children,
-            (v, prefix) => {
-              core.info(`${v.parent == null ? '- ' : '  '}${prefix} ${v}`)
-            }
-          )
-        }
-      }
+    core.startGroup('Final set of tags to delete.')
+    logItems(tagsDelete)
+    core.endGroup()
 
-      core.endGroup()
-
-      // The logic to determine the tags and versions to delete is as follows:
-      //
-      // Let X_tag be the set of all tags and X_digest be the set of all version digests in the package repository.
-      //
-      // 1. Determine the set A_tag of tags to delete according to the given regular expression this.config.includeTags.
-      //    Maybe the empty set if no tag matches the expression or the option is not set.
-      //
-      // 2. Determine the set A_digest of all version digests reachable from the tags in A_tag.
-      //
-      // 3. Determine the set B_tag of tags to exclude according to the given regular expression this.config.excludeTags.
-      //    Maybe the empty set if no tag matches the expression or the option is not set.
-      //
-      // 4. Determine the set B_digest of all version digests reachable from the tags in B_tag.
-      //
-      // At this point, there are sets of tags and digests to delete and not to delete based only on tag names.
-      //
-      // The next steps consider all remaining tags that are not in A_tag or B_tag, respectively.
-      //
-      // 5. Determine the set C_tag as the most recent this.config.keepNtagged tags from the set X_tag \ (A_tag v B_tag).
-      //    These tags will also be kept. C_tag may be the empty set, if all tags are already in the union of A_tag and B_tag,
-      //    or if the option is not set.
-      //
-      // 6. Determine the set C_digest of all version digests reachable from the tags in C_tag.
-      //
-      // 7. Determine D_tag as the complement of C_tag in X_tag \ (A_tag v B_tag). These tags will be deleted.
-      //    This may be the empty set. The set D_digest of all version digests reachable from the tags in D_tag is not considered.
-      //
-      // The next steps consider all remaining version digests that are not in A_digest, B_digest, or C_digest, respectively.
-      //
-      // 8. Determine the set E_digest as the most recent this.config.keepNuntagged version digests from the set X_digest \ (A_digest v B_digest v C_digest).
-      //    These versions will also be kept. E_digest may be the empty set, if all version digests are already in the union of A_digest, B_digest, and C_digest,
-      //    or if the option is not set.
-      //
-      // 9. Determine the set F_digest as the complement of E_digest in X_digest \ (A_digest v B_digest v C_digest). These version digests will be deleted.
-      //
-      // The final set of tags to delete is (A_tag v D_tag) \ (B_tag v C_tag) = (A_tag \ B_tag) v D_tag, as per definition.
-      //
-      // The final set of version digests to delete is (A_digest v F_digest) \ (B_digest v C_digest v E_digest) = (A_digest \ (B_digest v C_digest)) v F_digest, as per definition.
-
-      core.startGroup('Determine tags to delete.')
-
-      // The tags and versions to delete.
-      const remove = new this.VersionSet(this)
-
-      if (this.config.includeTags) {
-        const tags = this.matchItems(
-          this.config.includeTags,
-          this.repo.getTags()
-        )
-        remove.addTags(tags)
-
-        // Log tags that match the regular expression.
-        if (tags.length > 0) {
-          for (const item of tags) {
-            core.info(`- ${item}`)
-          }
-        } else {
-          core.info(
-            `No tags match the regular expression ${this.config.includeTags}.`
-          )
-        }
-      } else {
-        core.info('Option not set.')
-      }
-
-      core.endGroup()
-
-      core.startGroup('Determine tags to exclude.')
-
-      // The tags and versions to keep.
-      const keep = new this.VersionSet(this)
-
-      if (this.config.excludeTags) {
-        const tags = this.matchItems(
-          this.config.excludeTags,
-          this.repo.getTags()
-        )
-        keep.addTags(tags)
-
-        // Log tags that match the regular expression.
-        if (tags.length > 0) {
-          for (const item of tags) {
-            core.info(`- ${item}`)
-          }
-        } else {
-          core.info(
-            `No tags match the regular expression ${this.config.excludeTags}.`
-          )
-        }
-      } else {
-        core.info('Option not set.')
-      }
+    // Record the fate of every version before the tree is modified.
+    const plan = buildPackagePlan(
+      this.config.owner,
+      this.config.package,
+      this.repo.getRoots(),
+      tagsDelete
+    )
 
+    if (this.config.explain) {
+      core.startGroup('Explain decisions.')
+      this.logTree(this.repo.getRoots(), true)
       core.endGroup()
+    }
 
-      core.startGroup('Determine most recent remaining tags to keep.')
-
-      const tagsRest: string[] = this.repo
-        .getTags()
-        .filter(tag => !remove.tags.includes(tag) && !keep.tags.includes(tag))
-        .sort((x: string, y: string) => {
-          return (
-            Date.parse(
-              this.repo.getVersion(y)?.updated_at ?? '1970-01-01T00:00:00Z'
-            ) -
-            Date.parse(
-              this.repo.getVersion(x)?.updated_at ?? '1970-01-01T00:00:00Z'
+    core.startGroup('Final set of versions to delete.')
+    this.logTree(
+      scanRoots(new Set<PackageVersionExt>(versionsDelete), key =>
+        this.repo.getVersion(key)
+      ),
+      this.config.explain
+    )
+    core.endGroup()
+
+    const executor = new DeletionExecutor({
+      concurrency: this.config.concurrency,
+      failFast: this.config.failFast,
+      retries: 2,
+      retryDelay: 1000,
+      // Nothing is deleted in dry-run mode, so nothing is recorded either.
+      journal:
+        this.config.journalFile && !this.config.dryRun
+          ? new DeletionJournal(
+              this.config.journalFile,
+              `${this.config.owner}/${this.config.package}`
             )
-          )
-        })
-
-      // Determine the most recent tags to keep.
-      const c_tags =
-        this.config.keepNtagged != null
-          ? tagsRest.slice(0, this.config.keepNtagged)
-          : tagsRest
-
-      if (this.config.keepNtagged == null) {
-        core.info('Option not set. All remaining tags will be kept:')
-      } else {
-        core.info(
-          `Keeping the most recent ${this.config.keepNtagged} remaining tags:`
-        )
-      }
-      if (c_tags.length === 0) {
-        core.info('  none')
-      } else {
-        for (const t of c_tags) core.info(`- ${t}`)
-      }
-
-      keep.addTags(c_tags)
-
-      // Determine the remaining tags to delete.
-      const d_tags =
-        this.config.keepNtagged != null
-          ? tagsRest.slice(this.config.keepNtagged)
-          : []
-
-      remove.addTags(d_tags)
-
-      core.endGroup()
-
-      core.startGroup(
-        'Determine most recent remaining untagged images to keep.'
-      )
-
-      // Determine the ordered list of all versions that are neither in A or B.
-      const imagesRest: PackageVersionExt[] = Array.from(this.repo.getRoots())
-        .filter(v => !remove.versions.includes(v))
-        .filter(v => !keep.versions.includes(v))
-        .filter(v => !v.is_attestation)
-        .sort((x: PackageVersionExt, y: PackageVersionExt) => {
-          return (
-            Date.parse(y?.updated_at ?? '1970-01-01T00:00:00Z') -
-            Date.parse(x?.updated_at ?? '1970-01-01T00:00:00Z')
-          )
-        })
-
-      // 8. Determine E_digest.
-      const e_versions: PackageVersionExt[] =
-        this.config.keepNuntagged != null
-          ? imagesRest.slice(0, this.config.keepNuntagged)
-          : imagesRest
-
-      if (this.config.keepNuntagged == null) {
-        core.info('Option not set. All remaining untagged images will be kept.')
-      } else {
-        core.info(
-          `Keeping the most recent ${this.config.keepNuntagged} remaining untagged images:`
-        )
-      }
-      if (e_versions.length === 0) {
-        core.info('  none')
-      } else {
-        for (const v of e_versions) core.info(`- ${v}`)
-      }
-
-      keep.addVersions(e_versions)
-
-      const f_versions = imagesRest.filter(v => !e_versions.includes(v))
-
-      remove.addVersions(f_versions)
-
-      core.endGroup()
-
-      core.startGroup('Final set of tags to delete.')
-      const tagsDelete = remove.tags.filter(tag => !keep.tags.includes(tag))
-      this.logItems(tagsDelete)
-      core.endGroup()
-
-      core.startGroup('Final set of versions to delete.')
-      const versionsDelete = remove.versions.filter(
-        v => !keep.versions.includes(v)
-      )
-      {
-        const roots = scanRoots(
-          new Set<PackageVersionExt>(versionsDelete),
-          key => this.repo.getVersion(key)
-        )
-
-        for (const r of roots) {
-          renderTree<PackageVersionExt>(
-            r,
-            v => v.children,
-            (v, prefix) => {
-              core.info(`${v.parent == null ? '- ' : '  '}${prefix} ${v}`)
-            }
-          )
+          : undefined
+    })
+
+    // Tags are deleted one at a time, since deleting a tag may replace the version it is attached to.
+    core.startGroup('Delete tags.')
+    await executor.run(
+      tagsDelete.map(tag => ({
+        kind: 'tag',
+        key: tag,
+        digest: this.repo.getVersion(tag)?.name ?? ''
+      })),
+      async item => this.repo.deleteTag(item.key),
+      1
+    )
+    core.endGroup()
+
+    // Versions are deleted after their parents, so that a failure never leaves a dangling reference.
+    core.startGroup('Delete versions.')
+    await executor.run(
+      versionsDelete.map(v => ({
+        kind: 'version',
+        key: v.name,
+        digest: v.name,
+        dependsOn: v.parent?.name
+      })),
+      async item => {
+        // A temporary version left with a tag by a previous run is already deleted together with the tag.
+        if (this.repo.getVersion(item.key) != null) {
+          await this.repo.deleteVersion(item.key)
         }
       }
+    )
+    core.endGroup()
+
+    const report = executor.report
+    core.startGroup('Deletion summary.')
+    core.info(
+      `Deleted ${report.deleted.length}, resumed ${report.resumed.length}, failed ${report.failed.length}, not attempted ${report.pending.length}.`
+    )
+    for (const failure of formatFailures(report)) {
+      core.info(`- ${failure}`)
+    }
+    core.endGroup()
 
-      //this.logItems(versionsDelete)
-      core.endGroup()
-
-      core.startGroup('Delete tags.')
-      for (const tag of tagsDelete) {
-        core.info(`Deleting tag ${tag}.`)
-        await this.repo.deleteTag(tag)
-      }
-      core.endGroup()
-
-      core.startGroup('Delete versions.')
-      for (const v of versionsDelete) {
-        core.info(`Deleting version ${v}.`)
-        await this.repo.deleteVersion(v.id)
-      }
-      core.endGroup()
-    } catch (error) {
-      // Fail the workflow run if an error occurs
-      if (error instanceof Error) core.setFailed(error.message)
+    // Only report what was actually deleted.
+    if (!this.config.dryRun) {
+      recordDeletions(plan, report)
+    }
+    const done = new Set(
+      [...report.deleted, ...report.resumed].map(i => `${i.kind} ${i.key}`)
+    )
+    const tagsDeleted = tagsDelete.filter(t => done.has(`tag ${t}`))
+    const versionsDeleted = versionsDelete.filter(v =>
+      done.has(`version ${v.name}`)
+    )
+
+    const failed = report.failed.length + report.pending.length
+    return {
+      package: this.config.package,
+      tags: tagsDeleted,
+      versions: versionsDeleted,
+      kept: plan.versions.length - versionsDeleted.length,
+      plan,
+      ...(failed > 0
+        ? {
+            error: `${failed} deletions failed or were not attempted: ${formatFailures(report).join('; ')}`
+          }
+        : {})
     }
   }
 }
@@ -1,6 +1,7 @@
 import { Node } from './tree'
 import type {
   Manifest,
+  ManifestReference,
   PackageVersionMetadata,
   PackageVersion
 } from './schemas'
@@ -8,8 +9,11 @@ import type {
 export type MediaType =
   | 'application/vnd.oci.image.manifest.v1+json'
   | 'application/vnd.oci.image.index.v1+json'
+  | 'application/vnd.oci.artifact.manifest.v1+json'
   | 'application/vnd.docker.distribution.manifest.list.v2+json'
   | 'application/vnd.docker.distribution.manifest.v2+json'
+  | 'application/vnd.docker.distribution.manifest.v1+prettyjws'
+  | 'application/vnd.docker.distribution.manifest.v1+json'
 
 export class OCIImageManifestModel implements Manifest {
   [x: string]: unknown
@@ -48,6 +52,41 @@ export class DockerImageManifestModel implements Manifest {
   }
 }
 
+export class OCIArtifactManifestModel implements Manifest {
+  [x: string]: unknown
+  mediaType = 'application/vnd.oci.artifact.manifest.v1+json' as const
+
+  constructor(data: Manifest) {
+    Object.assign(this, data)
+  }
+}
+
+export class DockerSchema1ManifestModel implements Manifest {
+  [x: string]: unknown
+  mediaType:
+    | 'application/vnd.docker.distribution.manifest.v1+prettyjws'
+    | 'application/vnd.docker.distribution.manifest.v1+json' =
+    'application/vnd.docker.distribution.manifest.v1+prettyjws'
+
+  constructor(data: Manifest) {
+    Object.assign(this, data)
+  }
+}
+
+/**
+ * A manifest of an unknown media type, or one that could not be validated.
+ *
+ * Versions with opaque manifests are kept in the tree with type `unknown` instead of failing the run.
+ */
+export class OpaqueManifestModel implements Manifest {
+  [x: string]: unknown
+  mediaType = 'application/octet-stream'
+
+  constructor(data: Manifest) {
+    Object.assign(this, data)
+  }
+}
+
 export class PackageVersionMetadataModel implements PackageVersionMetadata {
   [x: string]: unknown
   package_type: string = 'container' as const
@@ -70,8 +109,94 @@ export type PackageVersionType =
   | 'multi-arch image'
   | 'single-arch image'
   | 'attestation'
+  | 'signature'
+  | 'sbom'
+  | 'helm-chart'
+  | 'wasm'
+  | 'generic-artifact'
   | 'unknown'
 
+// Types of versions that describe another version rather than being used on their own.
+const ATTACHED_TYPES: PackageVersionType[] = [
+  'attestation',
+  'signature',
+  'sbom'
+]
+
+// Media types of artifacts, configurations and layers, by the type of version they indicate.
+const MEDIA_TYPE_PATTERNS: Array<[RegExp, PackageVersionType]> = [
+  [
+    /^application\/vnd\.dev\.cosign\.(artifact\.sig|simplesigning)\b/,
+    'signature'
+  ],
+  [/^application\/vnd\.cncf\.notary\.signature$/, 'signature'],
+  [/^application\/vnd\.dev\.cosign\.artifact\.sbom\b/, 'sbom'],
+  [/^(application|text)\/spdx\b/, 'sbom'],
+  [/^application\/vnd\.(cyclonedx|syft)\b/, 'sbom'],
+  [
+    /^application\/vnd\.(in-toto|dsse\.envelope|dev\.sigstore\.bundle)\b/,
+    'attestation'
+  ],
+  [/^application\/vnd\.cncf\.helm\./, 'helm-chart'],
+  [/^application\/(wasm$|vnd\.wasm\.|vnd\.module\.wasm\.)/, 'wasm']
+]
+
+/**
+ * Determines the type of version indicated by a media type, e.g. the artifact type or the media type of a layer.
+ *
+ * @param mediaType - The media type.
+ * @returns The type of version, or undefined if the media type is not known.
+ */
+export function getMediaTypeCategory(
+  mediaType: string
+): PackageVersionType | undefined {
+  return MEDIA_TYPE_PATTERNS.find(([regex]) => regex.test(mediaType))?.[1]
+}
+
+/**
+ * Records why a version is kept or deleted.
+ */
+export interface Decision {
+  // Whether the version is kept or deleted.
+  action: 'keep' | 'delete'
+  // The name of the rule that made the decision.
+  rule: string
+  // The tag that selected the version, if any.
+  tag?: string
+  // The regular expression that matched the tag, if any.
+  pattern?: string
+  // Why the rule decided differently from its action, if it did.
+  detail?: string
+  // The digest of the ancestor through which the version was selected, if any.
+  inheritedFrom?: string
+}
+
+/**
+ * Formats a decision for display.
+ *
+ * @param decision - The decision to format.
+ * @returns A human-readable description of the decision.
+ */
+export function formatDecision(decision: Decision | null): string {
+  if (decision == null) return 'undecided'
+
+  let result = `${decision.action} by ${decision.rule}`
+  if (decision.tag != null && decision.pattern != null) {
+    result += ` (tag ${decision.tag} matches ${decision.pattern})`
+  } else if (decision.tag != null) {
+    result += ` (tag ${decision.tag})`
+  } else if (decision.pattern != null) {
+    result += ` (${decision.pattern})`
+  }
+  if (decision.detail != null) {
+    result += `, ${decision.detail}`
+  }
+  if (decision.inheritedFrom != null) {
+    result += `, inherited from ${decision.inheritedFrom}`
+  }
+  return result
+}
+
 export interface ManifestHolder {
   manifest: Manifest
 }
@@ -80,11 +205,47 @@ export interface PackageVersionExtProperties<T extends Node<T>>
   extends Node<T>,
     ManifestHolder {
   type: PackageVersionType
+  // The artifact type of an OCI artifact, null for images.
+  artifactType: string | null
+  // The descriptors of the manifests referring to this version, as returned by the OCI referrers API.
+  referrers: ManifestReference[]
+  decision: Decision | null
+}
+
+// Media types of the configuration of container images, as opposed to other artifacts.
+export const IMAGE_CONFIG_MEDIA_TYPES = [
+  'application/vnd.oci.image.config.v1+json',
+  'application/vnd.docker.container.image.v1+json'
+]
+
+/**
+ * Determines the artifact type of a manifest.
+ *
+ * Uses the `artifactType` property of the manifest, or the media type of its configuration if it is not the
+ * configuration of a container image, as recommended by the OCI Image Specification 1.1.
+ *
+ * @param manifest - The manifest.
+ * @returns The artifact type, or null for images and indexes without an artifact type.
+ */
+export function getManifestArtifactType(manifest: Manifest): string | null {
+  if (manifest.artifactType) return manifest.artifactType
+
+  const configType = manifest.config?.mediaType
+  if (
+    configType &&
+    configType !== 'application/vnd.oci.empty.v1+json' &&
+    !IMAGE_CONFIG_MEDIA_TYPES.includes(configType)
+  ) {
+    return configType
+  }
+
+  return null
 }
 
 export interface PackageVersionExt
   extends PackageVersion,
     PackageVersionExtProperties<PackageVersionExt> {
+  // Whether the version is an attestation, signature or SBOM of another version.
   get is_attestation(): boolean
 }
 
@@ -120,15 +281,19 @@ export class PackageVersionExtModel
   children: PackageVersionExt[] = []
   parent: PackageVersionExt | null = null
   type: PackageVersionType = 'unknown'
+  artifactType: string | null
+  referrers: ManifestReference[] = []
+  decision: Decision | null = null
   manifest: Manifest
 
   constructor(data: PackageVersion, manifest: Manifest) {
     super(data)
     this.manifest = manifest
+    this.artifactType = getManifestArtifactType(manifest)
   }
 
   get is_attestation(): boolean {
-    return this.type === 'attestation'
+    return ATTACHED_TYPES.includes(this.type)
   }
 
   toString(): string {
@@ -0,0 +1,208 @@
+import * as core from '@actions/core'
+import type { Config } from './config'
+import { OciPackageRepo } from './oci-package'
+import { RegistryClient } from './registry'
+import { Manifest, ManifestReference } from './schemas'
+
+const digest = (n: number): string => `sha256:${n.toString().padStart(64, '0')}`
+
+/**
+ * A registry client serving manifests from memory.
+ */
+class FakeRegistryClient implements RegistryClient {
+  tags = new Map<string, string>()
+  manifests = new Map<string, Manifest>()
+  referrers = new Map<string, ManifestReference[]>()
+  blobs = new Map<string, unknown>()
+  deleted: string[] = []
+
+  async login(): Promise<void> {}
+
+  async listTags(): Promise<string[]> {
+    return Array.from(this.tags.keys())
+  }
+
+  async resolveDigest(reference: string): Promise<string> {
+    return this.tags.get(reference) ?? reference
+  }
+
+  async getManifest(reference: string): Promise<Manifest> {
+    const manifest = this.manifests.get(await this.resolveDigest(reference))
+    if (!manifest) throw new Error(`manifest ${reference} not found`)
+    return manifest
+  }
+
+  async getBlob(key: string): Promise<unknown> {
+    if (!this.blobs.has(key)) throw new Error(`blob ${key} not found`)
+    return this.blobs.get(key)
+  }
+
+  async putManifest(): Promise<string | undefined> {
+    throw new Error('not supported')
+  }
+
+  async deleteManifest(reference: string): Promise<void> {
+    this.deleted.push(reference)
+  }
+
+  async getReferrers(subject: string): Promise<ManifestReference[]> {
+    return this.referrers.get(subject) ?? []
+  }
+}
+
+const image: Manifest = {
+  mediaType: 'application/vnd.oci.image.manifest.v1+json',
+  layers: [
+    {
+      mediaType: 'application/vnd.oci.image.layer.v1.tar+gzip',
+      digest: digest(100)
+    }
+  ]
+}
+
+const createRepo = (
+  dryRun = false
+): { repo: OciPackageRepo; registry: FakeRegistryClient } => {
+  const registry = new FakeRegistryClient()
+  registry.manifests.set(digest(1), {
+    mediaType: 'application/vnd.oci.image.index.v1+json',
+    manifests: [
+      {
+        mediaType: 'application/vnd.oci.image.manifest.v1+json',
+        digest: digest(2)
+      },
+      {
+        mediaType: 'application/vnd.oci.image.manifest.v1+json',
+        digest: digest(3)
+      }
+    ],
+    annotations: { 'org.opencontainers.image.created': '2024-01-02T00:00:00Z' }
+  })
+  registry.manifests.set(digest(2), image)
+  registry.manifests.set(digest(4), image)
+  registry.tags.set('latest', digest(1))
+  registry.tags.set('1.0', digest(1))
+  registry.tags.set('old', digest(4))
+
+  const config = {
+    owner: 'owner',
+    package: 'package',
+    registryUrl: 'https://registry.example.com/',
+    concurrency: 2,
+    dryRun
+  } as unknown as Config
+
+  return { repo: new OciPackageRepo(config, registry), registry }
+}
+
+describe('OciPackageRepo', () => {
+  it('should load tagged manifests and their children', async () => {
+    const { repo } = createRepo()
+    await repo.loadVersions()
+
+    expect(repo.getTags().sort()).toEqual(['1.0', 'latest', 'old'])
+    // The missing child manifest 3 is skipped.
+    expect(repo.getDigests()).toEqual([digest(1), digest(4), digest(2)])
+
+    const index = repo.getVersion('latest')
+    expect(index?.name).toBe(digest(1))
+    expect(index?.type).toBe('multi-arch image')
+    expect(index?.updated_at).toBe('2024-01-02T00:00:00Z')
+    expect(index?.children.map(c => c.name)).toEqual([digest(2)])
+    expect(Array.from(repo.getRoots()).map(r => r.name)).toEqual([
+      digest(1),
+      digest(4)
+    ])
+  })
+
+  it('should fall back to the configuration and the children for the creation date', async () => {
+    const { repo, registry } = createRepo()
+    const configured = (n: number): Manifest => ({
+      ...image,
+      config: {
+        mediaType: 'application/vnd.oci.image.config.v1+json',
+        digest: digest(n)
+      }
+    })
+    registry.manifests.set(digest(1), {
+      mediaType: 'application/vnd.oci.image.index.v1+json',
+      manifests: [2, 3].map(n => ({
+        mediaType: 'application/vnd.oci.image.manifest.v1+json',
+        digest: digest(n)
+      }))
+    })
+    registry.manifests.set(digest(2), configured(102))
+    registry.manifests.set(digest(3), configured(103))
+    registry.manifests.set(digest(4), configured(104))
+    registry.blobs.set(digest(102), { created: '2024-03-01T00:00:00Z' })
+    registry.blobs.set(digest(103), { created: '2024-03-02T00:00:00Z' })
+    const warning = jest.spyOn(core, 'warning').mockImplementation()
+    await repo.loadVersions()
+
+    expect(repo.getVersion(digest(2))?.updated_at).toBe('2024-03-01T00:00:00Z')
+    // The index is as recent as its most recent child.
+    expect(repo.getVersion(digest(1))?.updated_at).toBe('2024-03-02T00:00:00Z')
+    // The configuration of the old image is missing.
+    expect(repo.getVersion(digest(4))?.updated_at).toBe('')
+    expect(warning).toHaveBeenCalledTimes(1)
+    expect(warning).toHaveBeenCalledWith(
+      `The creation date of ${digest(4)} is unknown. It is excluded from the age rules.`
+    )
+    warning.mockRestore()
+  })
+
+  it('should load untagged referrers and link them to their subject', async () => {
+    const { repo, registry } = createRepo()
+    const signature: Manifest = {
+      mediaType: 'application/vnd.oci.image.manifest.v1+json',
+      artifactType: 'application/vnd.dev.cosign.artifact.sig.v1+json',
+      layers: image.layers,
+      subject: {
+        mediaType: 'application/vnd.oci.image.manifest.v1+json',
+        digest: digest(4)
+      }
+    }
+    registry.manifests.set(digest(5), signature)
+    registry.referrers.set(digest(4), [
+      {
+        mediaType: 'application/vnd.oci.image.manifest.v1+json',
+        digest: digest(5),
+        artifactType: 'application/vnd.dev.cosign.artifact.sig.v1+json'
+      }
+    ])
+    await repo.loadVersions()
+
+    const referrer = repo.getVersion(digest(5))
+    expect(referrer?.artifactType).toBe(
+      'application/vnd.dev.cosign.artifact.sig.v1+json'
+    )
+    expect(referrer?.parent?.name).toBe(digest(4))
+    expect(Array.from(repo.getRoots()).map(r => r.name)).toEqual([
+      digest(1),
+      digest(4)
+    ])
+  })
+
+  it('should delete tags and versions through the registry', async () => {
+    const { repo, registry } = createRepo()
+    await repo.loadVersions()
+
+    await repo.deleteTag('1.0')
+    await repo.deleteVersion(digest(4))
+
+    expect(registry.deleted).toEqual(['1.0', digest(4)])
+    expect(repo.getTags().sort()).toEqual(['latest'])
+    expect(repo.getVersion(digest(4))).toBeUndefined()
+  })
+
+  it('should not delete anything in dry-run mode', async () => {
+    const { repo, registry } = createRepo(true)
+    await repo.loadVersions()
+
+    await repo.deleteTag('1.0')
+    await repo.deleteVersion(digest(4))
+
+    expect(registry.deleted).toEqual([])
+    expect(repo.getTags()).toEqual(['latest'])
+  })
+})
@@ -0,0 +1,279 @@
+import * as core from '@actions/core'
+import type { Config } from './config'
+import { BasePackageRepo } from './github-package'
+import {
+  IMAGE_CONFIG_MEDIA_TYPES,
+  PackageVersionExt,
+  PackageVersionExtModel
+} from './models'
+import { OciRegistryClient, RegistryClient } from './registry'
+import { Manifest, ManifestReference } from './schemas'
+import { mapWithConcurrency } from './utils'
+
+/**
+ * Creates the registry client for a package in a registry implementing the OCI Distribution Specification.
+ *
+ * @param config - The action configuration.
+ * @returns The registry client.
+ */
+export function createOciRegistryClient(config: Config): OciRegistryClient {
+  if (!config.registryUrl) {
+    throw new Error('registry-url is not set')
+  }
+
+  return new OciRegistryClient({
+    url: config.registryUrl,
+    repository: `${config.owner}/${config.package}`,
+    username: config.registryUsername,
+    password: config.registryPassword ?? config.token
+  })
+}
+
+/**
+ * Provides access to a package via the OCI Distribution API of a registry, e.g. a self-hosted `registry:2` or Zot.
+ *
+ * In contrast to the GitHub Packages API, the OCI Distribution API cannot list untagged manifests. Versions are
+ * therefore discovered from the tags and the manifests they point to. Since registries do not record when a manifest
+ * was pushed, the `org.opencontainers.image.created` annotation is used as the modification date, or else the `created`
+ * field of the image configuration. An index without either is as recent as its most recent child. Versions whose
+ * date remains unknown are excluded from the age rules.
+ */
+export class OciPackageRepo extends BasePackageRepo {
+  // The next id to assign to a version.
+  nextId = 1
+
+  /**
+   * Constructor.
+   *
+   * @param config The action configuration
+   * @param registry The registry client, created from the configuration by default
+   */
+  constructor(config: Config, registry?: RegistryClient) {
+    super(config, registry ?? createOciRegistryClient(config))
+  }
+
+  async init(): Promise<void> {
+    await this.registry.login()
+  }
+
+  /**
+   * Determines when a manifest was created.
+   *
+   * @param manifest - The manifest.
+   * @returns The `org.opencontainers.image.created` annotation, or the `created` field of the image configuration.
+   */
+  private async getCreated(manifest: Manifest): Promise<string | undefined> {
+    const annotations = manifest['annotations'] as
+      | Record<string, string>
+      | undefined
+    const created = annotations?.['org.opencontainers.image.created']
+    if (created && !isNaN(Date.parse(created))) return created
+
+    const config = manifest.config
+    if (
+      config == null ||
+      !IMAGE_CONFIG_MEDIA_TYPES.includes(config.mediaType)
+    ) {
+      return undefined
+    }
+    try {
+      const blob = (await this.registry.getBlob(config.digest)) as {
+        created?: unknown
+      } | null
+      const value = blob?.created
+      return typeof value === 'string' && !isNaN(Date.parse(value))
+        ? value
+        : undefined
+    } catch (error) {
+      core.debug(
+        `Skipping missing configuration ${config.digest}: ${error instanceof Error ? error.message : error}`
+      )
+      return undefined
+    }
+  }
+
+  /**
+   * Creates a version for a manifest.
+   *
+   * @param digest - The digest of the manifest.
+   * @param tags - The tags of the manifest.
+   * @param manifest - The manifest.
+   * @param created - When the manifest was created, empty if unknown.
+   * @returns The version.
+   */
+  private createVersion(
+    digest: string,
+    tags: string[],
+    manifest: Manifest,
+    created: string
+  ): PackageVersionExt {
+    const url = `${this.config.registryUrl}v2/${this.config.owner}/${this.config.package}/manifests/${digest}`
+
+    return new PackageVersionExtModel(
+      {
+        id: this.nextId++,
+        name: digest,
+        url,
+        package_html_url: url,
+        created_at: created,
+        updated_at: created,
+        html_url: url,
+        metadata: {
+          package_type: 'container',
+          container: { tags }
+        }
+      },
+      manifest
+    )
+  }
+
+  /**
+   * Warns about a version whose creation date is unknown.
+   *
+   * @param version - The version.
+   */
+  private warnUnknownAge(version: PackageVersionExt): void {
+    core.warning(
+      `The creation date of ${version.name} is unknown. It is excluded from the age rules.`
+    )
+  }
+
+  /**
+   * Loads the versions for all tags and the manifests they point to.
+   */
+  protected async fetchVersions(
+    fn: (version: PackageVersionExt) => void
+  ): Promise<void> {
+    // Group the tags by digest.
+    const tagList = await this.registry.listTags()
+    const digests = await mapWithConcurrency(
+      tagList,
+      this.config.concurrency,
+      async tag => this.registry.resolveDigest(tag)
+    )
+    const tags = new Map<string, string[]>()
+    for (const [i, tag] of tagList.entries()) {
+      tags.set(digests[i], [...(tags.get(digests[i]) ?? []), tag])
+    }
+
+    // Load the manifests and any child manifests they point to, one level at a time.
+    let pending = Array.from(tags.keys())
+    const seen = new Set<string>(pending)
+    const versions: PackageVersionExt[] = []
+    while (pending.length > 0) {
+      const loaded = await mapWithConcurrency(
+        pending,
+        this.config.concurrency,
+        async digest => {
+          let manifest: Manifest
+          try {
+            manifest = await this.registry.getManifest(digest)
+          } catch (error) {
+            // Child manifests of a multi-arch image may be missing if not all platforms were mirrored.
+            if (tags.has(digest)) throw error
+            core.debug(`Skipping missing manifest ${digest}.`)
+            return undefined
+          }
+          return { manifest, created: await this.getCreated(manifest) }
+        }
+      )
+
+      const next: string[] = []
+      for (const [i, digest] of pending.entries()) {
+        if (loaded[i] == null) continue
+        const { manifest, created } = loaded[i]
+
+        const version = this.createVersion(
+          digest,
+          tags.get(digest) ?? [],
+          manifest,
+          created ?? ''
+        )
+        versions.push(version)
+        fn(version)
+
+        for (const child of manifest.manifests ?? []) {
+          if (!seen.has(child.digest)) {
+            seen.add(child.digest)
+            next.push(child.digest)
+          }
+        }
+      }
+      pending = next
+    }
+
+    // An index without a date is as recent as its most recent child. Children are loaded after their parents.
+    const byDigest = new Map(versions.map(v => [v.name, v]))
+    for (const version of versions.reverse()) {
+      if (version.updated_at) continue
+
+      const dates = (version.manifest.manifests ?? [])
+        .map(c => byDigest.get(c.digest)?.updated_at)
+        .filter((d): d is string => !!d)
+        .sort((x, y) => Date.parse(y) - Date.parse(x))
+      if (dates.length > 0) {
+        version.created_at = dates[0]
+        version.updated_at = dates[0]
+      } else {
+        this.warnUnknownAge(version)
+      }
+    }
+  }
+
+  /**
+   * Loads an untagged referrer, which cannot be discovered otherwise.
+   */
+  protected async loadReferrer(
+    descriptor: ManifestReference
+  ): Promise<PackageVersionExt | undefined> {
+    const manifest = await this.registry.getManifest(descriptor.digest)
+    const created = await this.getCreated(manifest)
+    const version = this.createVersion(
+      descriptor.digest,
+      [],
+      manifest,
+      created ?? ''
+    )
+    if (!created) this.warnUnknownAge(version)
+    return version
+  }
+
+  /**
+   * Delete a package version.
+   * @param key The digest, tag, or id of the version to delete.
+   */
+  async deleteVersion(key: string | number): Promise<void> {
+    const version = this.getVersion(key)
+
+    if (version == null) {
+      throw new Error(`Package version not found for key ${key}.`)
+    }
+
+    if (!this.config.dryRun) {
+      await this.registry.deleteManifest(version.name)
+    }
+
+    this.removeVersion(version)
+  }
+
+  /**
+   * Delete a tag.
+   *
+   * Uses the tag deletion of the OCI Distribution Specification 1.1, which not all registries support.
+   *
+   * @param tag The tag to delete.
+   */
+  async deleteTag(tag: string): Promise<void> {
+    const version = this.getVersion(tag)
+
+    if (!version) {
+      throw new Error(`Version or manifest not found for tag ${tag}.`)
+    }
+
+    if (!this.config.dryRun) {
+      await this.registry.deleteManifest(tag)
+    }
+
+    this.removeTag(version, tag)
+  }
+}
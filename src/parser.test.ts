@@ -2,8 +2,11 @@ import { parseManifest, parsePackageVersion } from './parser'
 import {
   OCIImageIndexModel,
   OCIImageManifestModel,
+  OCIArtifactManifestModel,
   DockerImageManifestModel,
   DockerManifestListModel,
+  DockerSchema1ManifestModel,
+  OpaqueManifestModel,
   PackageVersionModel
 } from './models'
 
@@ -90,11 +93,88 @@ describe('parseManifest', () => {
     expect(() => parseManifest('invalid json')).toThrow('Invalid JSON data')
   })
 
-  test('should throw error for unknown media type', () => {
+  test('should parse OCI Artifact Manifest', () => {
+    const input = JSON.stringify({
+      mediaType: 'application/vnd.oci.artifact.manifest.v1+json',
+      artifactType: 'application/vnd.example+json',
+      blobs: [
+        {
+          mediaType: 'application/octet-stream',
+          digest: 'sha256:0987654321fedcba'
+        }
+      ]
+    })
+    const result = parseManifest(input)
+    expect(result).toBeInstanceOf(OCIArtifactManifestModel)
+    expect(result.blobs).toHaveLength(1)
+  })
+
+  test('should parse Docker schema 1 manifest', () => {
+    const input = JSON.stringify({
+      mediaType: 'application/vnd.docker.distribution.manifest.v1+prettyjws',
+      schemaVersion: 1,
+      fsLayers: [{ blobSum: 'sha256:0987654321fedcba' }]
+    })
+    const result = parseManifest(input)
+    expect(result).toBeInstanceOf(DockerSchema1ManifestModel)
+    expect(result.mediaType).toBe(
+      'application/vnd.docker.distribution.manifest.v1+prettyjws'
+    )
+  })
+
+  test('should return opaque manifest for unknown media type', () => {
     const input = JSON.stringify({
       mediaType: 'application/unknown'
     })
-    expect(() => parseManifest(input)).toThrow('Invalid JSON data')
+    const result = parseManifest(input)
+    expect(result).toBeInstanceOf(OpaqueManifestModel)
+    expect(result.mediaType).toBe('application/unknown')
+  })
+
+  test('should return opaque manifest with references for invalid manifest', () => {
+    const child = {
+      mediaType: 'application/vnd.oci.image.manifest.v1+json',
+      digest: `sha512:${'a'.repeat(128)}`
+    }
+    const subject = {
+      mediaType: 'application/vnd.oci.image.index.v1+json',
+      digest: `sha256:${'b'.repeat(64)}`
+    }
+    const input = JSON.stringify({
+      mediaType: 'application/vnd.oci.image.index.v1+json',
+      manifests: [
+        child,
+        { mediaType: 'application/vnd.oci.image.manifest.v1+json' }
+      ],
+      subject
+    })
+    const result = parseManifest(input)
+    expect(result).toBeInstanceOf(OpaqueManifestModel)
+    expect(result).toEqual(
+      new OpaqueManifestModel({
+        mediaType: 'application/vnd.oci.image.index.v1+json',
+        manifests: [child],
+        subject
+      })
+    )
+  })
+
+  test('should drop references without a digest of an invalid manifest', () => {
+    const input = JSON.stringify({
+      mediaType: 'application/vnd.oci.image.manifest.v1+json',
+      manifests: 'none',
+      subject: { mediaType: 'application/vnd.oci.image.index.v1+json' }
+    })
+    const result = parseManifest(input)
+    expect(result).toEqual(
+      new OpaqueManifestModel({
+        mediaType: 'application/vnd.oci.image.manifest.v1+json'
+      })
+    )
+  })
+
+  test('should throw error for JSON that is not an object', () => {
+    expect(() => parseManifest('[]')).toThrow('Invalid JSON data')
   })
 
   test('should throw error for empty string', () => {
@@ -197,12 +277,14 @@ describe('parseManifest - Zod specific', () => {
     expect((result as any).customField).toBe('should be preserved')
   })
 
-  test('should validate mediaType enum strictly', () => {
+  test('should keep references of manifests of unknown media type', () => {
     const input = JSON.stringify({
       mediaType: 'application/vnd.custom.type+json',
       layers: []
     })
-    expect(() => parseManifest(input)).toThrow('Invalid JSON data')
+    const result = parseManifest(input)
+    expect(result).toBeInstanceOf(OpaqueManifestModel)
+    expect(result.layers).toEqual([])
   })
 
   test('should preserve additional properties in nested objects', () => {
@@ -1,20 +1,44 @@
 import * as core from '@actions/core'
-import { manifestSchema, packageVersionSchema, PackageVersion } from './schemas'
+import {
+  Manifest,
+  ManifestReference,
+  manifestMediaTypeSchema,
+  manifestSchema,
+  packageVersionSchema,
+  PackageVersion
+} from './schemas'
 import {
   OCIImageIndexModel,
   OCIImageManifestModel,
+  OCIArtifactManifestModel,
   DockerImageManifestModel,
   DockerManifestListModel,
+  DockerSchema1ManifestModel,
+  OpaqueManifestModel,
   PackageVersionModel
 } from './models'
 
+/**
+ * Checks whether a value is a reference to another manifest that can be followed, i.e. an object with a digest.
+ */
+function isReference(value: unknown): value is ManifestReference {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as Record<string, unknown>).digest === 'string'
+  )
+}
+
 export function parseManifest(
   jsonString: string
 ):
   | OCIImageIndexModel
   | OCIImageManifestModel
+  | OCIArtifactManifestModel
   | DockerImageManifestModel
-  | DockerManifestListModel {
+  | DockerManifestListModel
+  | DockerSchema1ManifestModel
+  | OpaqueManifestModel {
   // Input validation
   if (typeof jsonString !== 'string') {
     throw new Error('Invalid JSON data')
@@ -32,6 +56,11 @@ export function parseManifest(
     throw new Error('Invalid JSON data')
   }
 
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    core.info(`Input: ${jsonString}`)
+    throw new Error('Invalid JSON data')
+  }
+
   // Validate with Zod
   const result = manifestSchema.safeParse(parsed)
 
@@ -39,22 +68,54 @@ export function parseManifest(
     // Enhanced error logging with Zod's detailed errors
     core.info(`Validation errors: ${JSON.stringify(result.error.format())}`)
     core.info(`Input: ${jsonString}`)
-    throw new Error('Invalid JSON data')
+
+    // Keep the manifest as is, so that the versions it references stay linked to it and are not mistaken for untagged
+    // roots. Only references without a digest are dropped, since these cannot be followed anyway.
+    const raw = parsed as Record<string, unknown>
+    const mediaType =
+      typeof raw.mediaType === 'string'
+        ? raw.mediaType
+        : 'application/octet-stream'
+    core.warning(
+      `Invalid manifest of media type ${mediaType}, treating it as opaque.`
+    )
+    const data: Manifest = { ...raw, mediaType }
+    if (Array.isArray(raw.manifests)) {
+      data.manifests = raw.manifests.filter(isReference)
+    } else {
+      delete data.manifests
+    }
+    if (!isReference(raw.subject)) {
+      delete data.subject
+    }
+    return new OpaqueManifestModel(data)
   }
 
   const data = result.data
 
   // Discriminated union handling
-  // mediaType is guaranteed by Zod validation to be one of the enum values
-  switch (data.mediaType) {
+  const mediaType = manifestMediaTypeSchema.safeParse(data.mediaType)
+  if (!mediaType.success) {
+    core.warning(
+      `Unsupported manifest media type ${data.mediaType}, treating it as opaque.`
+    )
+    return new OpaqueManifestModel(data)
+  }
+
+  switch (mediaType.data) {
     case 'application/vnd.oci.image.manifest.v1+json':
       return new OCIImageManifestModel(data)
     case 'application/vnd.oci.image.index.v1+json':
       return new OCIImageIndexModel(data)
+    case 'application/vnd.oci.artifact.manifest.v1+json':
+      return new OCIArtifactManifestModel(data)
     case 'application/vnd.docker.distribution.manifest.list.v2+json':
       return new DockerManifestListModel(data)
     case 'application/vnd.docker.distribution.manifest.v2+json':
       return new DockerImageManifestModel(data)
+    case 'application/vnd.docker.distribution.manifest.v1+prettyjws':
+    case 'application/vnd.docker.distribution.manifest.v1+json':
+      return new DockerSchema1ManifestModel(data)
   }
 }
 
@@ -0,0 +1,162 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { PackageVersionExt, PackageVersionExtModel } from './models'
+import { buildPackagePlan, recordDeletions, writePlanFile } from './plan'
+import { linkVersions } from './tree'
+
+const createVersion = (id: number, tags: string[] = []): PackageVersionExt =>
+  new PackageVersionExtModel(
+    {
+      id,
+      name: `sha256:${id.toString().padStart(64, '0')}`,
+      url: `https://api.github.com/versions/${id}`,
+      package_html_url: 'https://github.com/owner/package',
+      created_at: '2024-01-01T00:00:00Z',
+      updated_at: '2024-01-01T00:00:00Z',
+      html_url: `https://github.com/owner/package/versions/${id}`,
+      metadata: {
+        package_type: 'container',
+        container: { tags }
+      }
+    },
+    { mediaType: 'application/vnd.oci.image.index.v1+json' }
+  )
+
+describe('buildPackagePlan', () => {
+  it('should list versions in tree order with their fate', () => {
+    const root1 = createVersion(1, ['latest'])
+    const child1 = createVersion(2)
+    const root2 = createVersion(3, ['old', 'older'])
+    linkVersions(root1, child1)
+    root1.type = 'multi-arch image'
+    child1.type = 'single-arch image'
+    root2.type = 'single-arch image'
+    root1.decision = { action: 'keep', rule: 'exclude-tags', tag: 'latest' }
+    child1.decision = {
+      action: 'keep',
+      rule: 'exclude-tags',
+      tag: 'latest',
+      inheritedFrom: root1.name
+    }
+    root2.decision = {
+      action: 'delete',
+      rule: 'include-tags',
+      tag: 'old',
+      pattern: '^old'
+    }
+
+    const plan = buildPackagePlan(
+      'owner',
+      'package',
+      [root1, root2],
+      ['old', 'older']
+    )
+
+    expect(plan.owner).toBe('owner')
+    expect(plan.package).toBe('package')
+    expect(plan.tags).toEqual({ delete: ['old', 'older'], keep: ['latest'] })
+    expect(plan.versions).toEqual([
+      {
+        id: 1,
+        digest: root1.name,
+        tags: ['latest'],
+        type: 'multi-arch image',
+        parent: null,
+        action: 'keep',
+        reason: 'keep by exclude-tags (tag latest)',
+        decision: root1.decision
+      },
+      {
+        id: 2,
+        digest: child1.name,
+        tags: [],
+        type: 'single-arch image',
+        parent: root1.name,
+        action: 'keep',
+        reason: `keep by exclude-tags (tag latest), inherited from ${root1.name}`,
+        decision: child1.decision
+      },
+      {
+        id: 3,
+        digest: root2.name,
+        tags: ['old', 'older'],
+        type: 'single-arch image',
+        parent: null,
+        action: 'delete',
+        reason: 'delete by include-tags (tag old matches ^old)',
+        decision: root2.decision
+      }
+    ])
+  })
+
+  it('should keep versions without a decision', () => {
+    const root = createVersion(1)
+
+    const plan = buildPackagePlan('owner', 'package', [root], [])
+
+    expect(plan.versions[0].action).toBe('keep')
+    expect(plan.versions[0].reason).toBe('undecided')
+  })
+
+  it('should return an empty plan for an empty package', () => {
+    const plan = buildPackagePlan('owner', 'package', [], [])
+
+    expect(plan.tags).toEqual({ delete: [], keep: [] })
+    expect(plan.versions).toEqual([])
+  })
+})
+
+describe('recordDeletions', () => {
+  it('should mark deletions that failed or were not attempted', () => {
+    const versions = [1, 2, 3, 4].map(id => createVersion(id))
+    versions[0].metadata.container.tags = ['a', 'b']
+    for (const v of versions.slice(0, 3)) {
+      v.decision = { action: 'delete', rule: 'test' }
+    }
+    const plan = buildPackagePlan('owner', 'package', versions, ['a', 'b'])
+
+    recordDeletions(plan, {
+      deleted: [{ kind: 'tag', key: 'a', digest: versions[0].name }],
+      // Deleted by a previous run.
+      resumed: [
+        { kind: 'version', key: versions[0].name, digest: versions[0].name }
+      ],
+      failed: [
+        {
+          kind: 'version',
+          key: versions[1].name,
+          digest: versions[1].name,
+          error: 'forbidden'
+        }
+      ],
+      pending: []
+    })
+
+    expect(plan.tags.status).toEqual({ a: 'deleted', b: 'pending' })
+    expect(plan.versions.map(v => v.status)).toEqual([
+      'deleted',
+      'failed',
+      'pending',
+      undefined
+    ])
+  })
+})
+
+describe('writePlanFile', () => {
+  it('should write the plan as JSON and create missing directories', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'plan-'))
+    const filePath = path.join(dir, 'nested', 'plan.json')
+
+    try {
+      writePlanFile(filePath, { dryRun: true, packages: [] })
+
+      expect(JSON.parse(fs.readFileSync(filePath, 'utf-8'))).toEqual({
+        dryRun: true,
+        packages: []
+      })
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true })
+    }
+  })
+})
@@ -0,0 +1,153 @@
+import fs from 'fs'
+import path from 'path'
+import {
+  Decision,
+  formatDecision,
+  PackageVersionExt,
+  PackageVersionType
+} from './models'
+import { DeletionReport } from './executor'
+import { visit } from './tree'
+
+/**
+ * The outcome of deleting a tag or version: deleted, failed, or not attempted since a previous deletion failed in
+ * fail-fast mode.
+ */
+export type DeletionStatus = 'deleted' | 'failed' | 'pending'
+
+/**
+ * The fate of a single version.
+ */
+export interface PlanVersion {
+  // The package version ID.
+  id: number
+  // The digest of the version.
+  digest: string
+  // The tags attached to the version.
+  tags: string[]
+  // The artifact type of the version.
+  type: PackageVersionType
+  // The digest of the parent version, if any.
+  parent: string | null
+  // Whether the version is kept or deleted.
+  action: 'keep' | 'delete'
+  // The reason for keeping or deleting the version.
+  reason: string
+  // The decision record behind the reason.
+  decision: Decision | null
+  // The outcome of deleting the version, once attempted.
+  status?: DeletionStatus
+}
+
+/**
+ * The deletion plan for a single package.
+ */
+export interface PackagePlan {
+  owner: string
+  package: string
+  tags: {
+    delete: string[]
+    keep: string[]
+    // The outcome of deleting each tag, once attempted.
+    status?: Record<string, DeletionStatus>
+  }
+  versions: PlanVersion[]
+}
+
+/**
+ * The deletion plan for all packages of an action run.
+ */
+export interface Plan {
+  dryRun: boolean
+  packages: PackagePlan[]
+}
+
+/**
+ * Builds the deletion plan for a single package.
+ *
+ * Versions are listed in tree order, i.e. each root version is followed by its descendants. The fate of each version
+ * is taken from its decision record. Versions without a decision are kept.
+ *
+ * @param owner - The package owner.
+ * @param packageName - The package name.
+ * @param roots - The root versions of the package.
+ * @param tagsDelete - The tags to delete.
+ * @returns The deletion plan.
+ */
+export function buildPackagePlan(
+  owner: string,
+  packageName: string,
+  roots: Iterable<PackageVersionExt>,
+  tagsDelete: string[]
+): PackagePlan {
+  const versions: PlanVersion[] = []
+  const tags: string[] = []
+
+  for (const r of roots) {
+    visit(r, v => {
+      versions.push({
+        id: v.id,
+        digest: v.name,
+        tags: [...v.metadata.container.tags],
+        type: v.type,
+        parent: v.parent?.name ?? null,
+        action: v.decision?.action ?? 'keep',
+        reason: formatDecision(v.decision),
+        decision: v.decision
+      })
+      tags.push(...v.metadata.container.tags)
+    })
+  }
+
+  return {
+    owner,
+    package: packageName,
+    tags: {
+      delete: [...tagsDelete],
+      keep: tags.filter(t => !tagsDelete.includes(t))
+    },
+    versions
+  }
+}
+
+/**
+ * Records the outcome of the deletions in the plan of a package.
+ *
+ * Tags and versions deleted by a previous run count as deleted. Those that were neither deleted nor failed were not
+ * attempted.
+ *
+ * @param plan - The deletion plan of the package.
+ * @param report - The outcome of the deletions.
+ */
+export function recordDeletions(
+  plan: PackagePlan,
+  report: DeletionReport
+): void {
+  const statuses = new Map<string, DeletionStatus>()
+  for (const i of [...report.deleted, ...report.resumed]) {
+    statuses.set(`${i.kind} ${i.key}`, 'deleted')
+  }
+  for (const i of report.failed) statuses.set(`${i.kind} ${i.key}`, 'failed')
+
+  plan.tags.status = Object.fromEntries(
+    plan.tags.delete.map(t => [t, statuses.get(`tag ${t}`) ?? 'pending'])
+  )
+  for (const v of plan.versions) {
+    if (v.action === 'delete') {
+      v.status = statuses.get(`version ${v.digest}`) ?? 'pending'
+    }
+  }
+}
+
+/**
+ * Writes the deletion plan to a JSON file.
+ *
+ * Missing parent directories are created.
+ *
+ * @param filePath - The path of the file to write.
+ * @param plan - The deletion plan.
+ */
+export function writePlanFile(filePath: string, plan: Plan): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true })
+  fs.writeFileSync(filePath, `${JSON.stringify(plan, null, 2)}\n`, 'utf-8')
+}
@@ -0,0 +1,239 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import {
+  loadPolicyFile,
+  parseArtifactKinds,
+  parsePolicy,
+  restrictRules,
+  rulesFromOptions
+} from './policy'
+
+describe('parsePolicy', () => {
+  it('should parse rules from YAML', () => {
+    const rules = parsePolicy(`
+rules:
+  - name: releases
+    tags: ^v
+    action: keep
+  - name: main
+    tags: ^main-
+    keep-n: 5
+    older-than: 7d
+  - tags: ^pr-
+    types: [multi-arch image]
+  - untagged: true
+    keep-n: 2
+`)
+
+    expect(rules).toEqual([
+      { name: 'releases', tags: '^v', action: 'keep' },
+      {
+        name: 'main',
+        tags: '^main-',
+        keepN: 5,
+        olderThan: 7 * 24 * 60 * 60 * 1000,
+        action: 'delete'
+      },
+      {
+        name: 'rule 3',
+        tags: '^pr-',
+        types: ['multi-arch image'],
+        action: 'delete'
+      },
+      { name: 'rule 4', untagged: true, keepN: 2, action: 'delete' }
+    ])
+  })
+
+  it('should parse rules from JSON', () => {
+    expect(
+      parsePolicy(
+        '{"rules": [{"name": "semver", "semver": {"keep-n-minor": 2}}]}'
+      )
+    ).toEqual([
+      {
+        name: 'semver',
+        semver: {
+          keepNpatch: undefined,
+          keepNminor: 2,
+          keepNprerelease: undefined
+        },
+        action: 'delete'
+      }
+    ])
+  })
+
+  it('should reject unknown properties', () => {
+    expect(() => parsePolicy('rules:\n  - keep_n: 5\n')).toThrow(
+      /Invalid policy/
+    )
+  })
+
+  it('should reject invalid values', () => {
+    expect(() => parsePolicy('rules:\n  - keep-n: -1\n')).toThrow(
+      /Invalid policy/
+    )
+    expect(() => parsePolicy('rules:\n  - action: purge\n')).toThrow(
+      /Invalid policy/
+    )
+    expect(() => parsePolicy('rules:\n  - older-than: soon\n')).toThrow(
+      'invalid duration soon'
+    )
+    expect(() => parsePolicy('rules:\n  - tags: "("\n')).toThrow(
+      'rule 1: invalid regular expression ('
+    )
+  })
+
+  it('should parse group-by', () => {
+    expect(
+      parsePolicy(
+        'rules:\n  - tags: ^pr-\n    keep-n: 3\n    group-by: ^pr-(\\d+)\n'
+      )
+    ).toEqual([
+      {
+        name: 'rule 1',
+        tags: '^pr-',
+        keepN: 3,
+        groupBy: '^pr-(\\d+)',
+        action: 'delete'
+      }
+    ])
+    expect(() =>
+      parsePolicy('rules:\n  - untagged: true\n    group-by: (a)\n')
+    ).toThrow('rule 1: group-by can only be used with tags')
+  })
+
+  it('should parse tags of stale references', () => {
+    expect(
+      parsePolicy(
+        'rules:\n  - closed-pr-tags: pr-{number}\n  - deleted-branch-tags: b-{name}\n'
+      )
+    ).toEqual([
+      {
+        name: 'rule 1',
+        staleRefs: { type: 'pull-request', template: 'pr-{number}' },
+        action: 'delete'
+      },
+      {
+        name: 'rule 2',
+        staleRefs: { type: 'branch', template: 'b-{name}' },
+        action: 'delete'
+      }
+    ])
+    expect(() =>
+      parsePolicy('rules:\n  - closed-pr-tags: pr-{name}\n')
+    ).toThrow('rule 1: tag template pr-{name} must contain {number}')
+    expect(() =>
+      parsePolicy('rules:\n  - closed-pr-tags: pr-{number}\n    tags: ^pr\n')
+    ).toThrow(/mutually exclusive/)
+  })
+
+  it('should reject tags combined with untagged', () => {
+    expect(() =>
+      parsePolicy('rules:\n  - name: x\n    tags: a\n    untagged: true\n')
+    ).toThrow('x: tags and untagged are mutually exclusive')
+  })
+
+  it('should reject malformed documents', () => {
+    expect(() => parsePolicy('rules: [')).toThrow(/Invalid policy/)
+    expect(() => parsePolicy('- name: x')).toThrow(/Invalid policy/)
+  })
+})
+
+describe('loadPolicyFile', () => {
+  it('should load a policy from a file', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'policy-'))
+    const file = path.join(dir, 'policy.yml')
+    fs.writeFileSync(file, 'rules:\n  - action: keep\n')
+
+    expect(loadPolicyFile(file)).toEqual([{ name: 'rule 1', action: 'keep' }])
+
+    fs.rmSync(dir, { recursive: true })
+  })
+
+  it('should fail for a missing file', () => {
+    expect(() => loadPolicyFile('/nonexistent/policy.yml')).toThrow(
+      'Policy file /nonexistent/policy.yml not found'
+    )
+  })
+})
+
+describe('rulesFromOptions', () => {
+  it('should return no rules without options', () => {
+    expect(rulesFromOptions({})).toEqual([])
+  })
+
+  it('should translate all options in order', () => {
+    expect(
+      rulesFromOptions({
+        includeTags: '^pr-',
+        excludeTags: '^latest$',
+        semver: { keepNpatch: 1 },
+        keepNtagged: 3,
+        keepNperGroup: '^pr-(\\d+)',
+        keepNuntagged: 2
+      })
+    ).toEqual([
+      { name: 'exclude-tags', tags: '^latest$', action: 'keep' },
+      { name: 'include-tags', tags: '^pr-', action: 'delete' },
+      { name: 'semver', semver: { keepNpatch: 1 }, action: 'delete' },
+      {
+        name: 'keep-n-tagged',
+        keepN: 3,
+        groupBy: '^pr-(\\d+)',
+        action: 'delete'
+      },
+      {
+        name: 'keep-n-untagged',
+        untagged: true,
+        keepN: 2,
+        action: 'delete'
+      }
+    ])
+  })
+
+  it('should let an age threshold alone decide', () => {
+    expect(rulesFromOptions({ olderThan: 1000 })).toEqual([
+      { name: 'keep-n-tagged', olderThan: 1000, action: 'delete' },
+      {
+        name: 'keep-n-untagged',
+        untagged: true,
+        olderThan: 1000,
+        action: 'delete'
+      }
+    ])
+  })
+})
+
+describe('parseArtifactKinds', () => {
+  it('should return the types of the kinds', () => {
+    expect(parseArtifactKinds(['image', 'helm'])).toEqual([
+      'multi-arch image',
+      'single-arch image',
+      'helm-chart'
+    ])
+  })
+
+  it('should reject unknown kinds', () => {
+    expect(() => parseArtifactKinds(['chart'])).toThrow(
+      'artifact type chart is not supported, use one of image, helm, wasm, artifact'
+    )
+  })
+})
+
+describe('restrictRules', () => {
+  it('should restrict rules without types', () => {
+    expect(
+      restrictRules(
+        [
+          { name: 'a', keepN: 1, action: 'delete' },
+          { name: 'b', untagged: true, types: ['wasm'], action: 'delete' }
+        ],
+        ['helm-chart']
+      )
+    ).toEqual([
+      { name: 'a', keepN: 1, types: ['helm-chart'], action: 'delete' },
+      { name: 'b', untagged: true, types: ['wasm'], action: 'delete' }
+    ])
+  })
+})
@@ -0,0 +1,302 @@
+import * as core from '@actions/core'
+import fs from 'fs'
+import YAML from 'yaml'
+import type { Config } from './config'
+import { StaleRefType, validateTemplate } from './github-refs'
+import { PackageVersionType } from './models'
+import { policySchema, RuleInput } from './schemas'
+import { SemVerPolicy } from './semver'
+import { parseDuration } from './utils'
+
+/**
+ * A retention rule.
+ *
+ * A rule selects either tags or untagged versions that have not been selected by a previous rule. Selected items are
+ * kept or deleted according to the rule's action. For rules that delete, `keepN`, `olderThan`, and `semver` carve out
+ * items that are kept nonetheless.
+ */
+export interface Rule {
+  // The name of the rule, used in logs and decision records.
+  name: string
+  // Regular expression that matches tags to select. If neither this nor `untagged` is set, all tags are selected.
+  tags?: string
+  // Whether to select untagged root versions instead of tags.
+  untagged?: boolean
+  // Selects the tags of closed pull requests or deleted branches by a tag template instead.
+  staleRefs?: { type: StaleRefType; template: string }
+  // The explicit list of tags to select, resolved from `staleRefs`.
+  tagList?: string[]
+  // The types of versions to select. All types if not set.
+  types?: PackageVersionType[]
+  // Only delete items older than this number of milliseconds.
+  olderThan?: number
+  // Number of most recent selected items to keep.
+  keepN?: number
+  // Regular expression with a capture group that partitions the selected tags. `keepN` applies to each group.
+  groupBy?: string
+  // Semantic version limits. Only tags that are semantic versions are selected if set.
+  semver?: SemVerPolicy
+  // Whether to keep or delete the selected items.
+  action: 'keep' | 'delete'
+}
+
+/**
+ * Converts a validated rule from a policy file into a rule.
+ *
+ * @param input - The rule from the policy file.
+ * @param index - The position of the rule in the policy file.
+ * @returns The rule.
+ */
+function toRule(input: RuleInput, index: number): Rule {
+  const name = input.name ?? `rule ${index + 1}`
+
+  if (input.tags != null && input.untagged) {
+    throw new Error(`${name}: tags and untagged are mutually exclusive`)
+  }
+  if (input.semver != null && input.untagged) {
+    throw new Error(`${name}: semver cannot be used with untagged`)
+  }
+  const staleRefs: Array<NonNullable<Rule['staleRefs']>> = []
+  if (input['closed-pr-tags'] != null) {
+    staleRefs.push({ type: 'pull-request', template: input['closed-pr-tags'] })
+  }
+  if (input['deleted-branch-tags'] != null) {
+    staleRefs.push({ type: 'branch', template: input['deleted-branch-tags'] })
+  }
+  if (
+    staleRefs.length > 1 ||
+    (staleRefs.length > 0 && (input.tags != null || input.untagged))
+  ) {
+    throw new Error(
+      `${name}: closed-pr-tags, deleted-branch-tags, tags and untagged are mutually exclusive`
+    )
+  }
+  for (const r of staleRefs) {
+    try {
+      validateTemplate(r.type, r.template)
+    } catch (error) {
+      throw new Error(`${name}: ${(error as Error).message}`)
+    }
+  }
+
+  if (input['group-by'] != null && (input.untagged || input.semver != null)) {
+    throw new Error(`${name}: group-by can only be used with tags`)
+  }
+  for (const regex of [input.tags, input['group-by']]) {
+    if (regex != null) validateRegExp(name, regex)
+  }
+
+  return {
+    name,
+    ...(input.tags != null ? { tags: input.tags } : {}),
+    ...(input.untagged ? { untagged: true } : {}),
+    ...(staleRefs.length > 0 ? { staleRefs: staleRefs[0] } : {}),
+    ...(input.types != null ? { types: input.types } : {}),
+    ...(input['older-than'] != null
+      ? { olderThan: parseDuration(input['older-than']) }
+      : {}),
+    ...(input['keep-n'] != null ? { keepN: input['keep-n'] } : {}),
+    ...(input['group-by'] != null ? { groupBy: input['group-by'] } : {}),
+    ...(input.semver != null
+      ? {
+          semver: {
+            keepNpatch: input.semver['keep-n-patch'],
+            keepNminor: input.semver['keep-n-minor'],
+            keepNprerelease: input.semver['keep-n-prerelease']
+          }
+        }
+      : {}),
+    action: input.action ?? 'delete'
+  }
+}
+
+/**
+ * Parses a policy from YAML or JSON.
+ *
+ * @param text - The contents of the policy file. Since JSON is a subset of YAML, both formats are supported.
+ * @returns The ordered list of rules.
+ * @throws An error if the policy is invalid.
+ */
+export function parsePolicy(text: string): Rule[] {
+  let parsed: unknown
+  try {
+    parsed = YAML.parse(text)
+  } catch (error) {
+    throw new Error(
+      `Invalid policy: ${error instanceof Error ? error.message : 'Unknown error'}`
+    )
+  }
+
+  // Validate with Zod
+  const result = policySchema.safeParse(parsed)
+
+  if (!result.success) {
+    core.info(`Validation errors: ${JSON.stringify(result.error.format())}`)
+    throw new Error(`Invalid policy: ${result.error.message}`)
+  }
+
+  return result.data.rules.map(toRule)
+}
+
+/**
+ * Loads a policy from a YAML or JSON file.
+ *
+ * @param filePath - The path of the policy file.
+ * @returns The ordered list of rules.
+ */
+export function loadPolicyFile(filePath: string): Rule[] {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Policy file ${filePath} not found`)
+  }
+  return parsePolicy(fs.readFileSync(filePath, 'utf-8'))
+}
+
+/**
+ * Checks that a regular expression of an option or rule compiles.
+ *
+ * @param name - The name of the option or rule, for the error message.
+ * @param regex - The regular expression.
+ * @throws An error if the regular expression is invalid.
+ */
+export function validateRegExp(name: string, regex: string): void {
+  try {
+    new RegExp(regex)
+  } catch {
+    throw new Error(`${name}: invalid regular expression ${regex}`)
+  }
+}
+
+/**
+ * The kinds of artifacts that can be selected by the `artifact-types` option, with the types of versions they include.
+ */
+export const ARTIFACT_KINDS: Record<string, PackageVersionType[]> = {
+  image: ['multi-arch image', 'single-arch image'],
+  helm: ['helm-chart'],
+  wasm: ['wasm'],
+  artifact: ['generic-artifact']
+}
+
+/**
+ * Parses a list of artifact kinds into the types of versions they include.
+ *
+ * @param kinds - The names of the artifact kinds, e.g. `image` or `helm`.
+ * @returns The types of versions.
+ */
+export function parseArtifactKinds(kinds: string[]): PackageVersionType[] {
+  return kinds.flatMap(kind => {
+    if (ARTIFACT_KINDS[kind] == null) {
+      throw new Error(
+        `artifact type ${kind} is not supported, use one of ${Object.keys(ARTIFACT_KINDS).join(', ')}`
+      )
+    }
+    return ARTIFACT_KINDS[kind]
+  })
+}
+
+/**
+ * Restricts rules that select all types of versions to the given types.
+ *
+ * Rules with their own `types` are left unchanged.
+ *
+ * @param rules - The rules to restrict.
+ * @param types - The types of versions to select.
+ * @returns The restricted rules.
+ */
+export function restrictRules(
+  rules: Rule[],
+  types: PackageVersionType[]
+): Rule[] {
+  return rules.map(rule => (rule.types == null ? { ...rule, types } : rule))
+}
+
+/**
+ * Translates the individual retention options into an equivalent list of rules.
+ *
+ * Tags to exclude come first, so that they are kept even if they are also matched by `include-tags`.
+ *
+ * @param config - The retention options.
+ * @returns The ordered list of rules.
+ */
+export function rulesFromOptions(
+  config: Pick<
+    Config,
+    | 'includeTags'
+    | 'excludeTags'
+    | 'closedPrTags'
+    | 'deletedBranchTags'
+    | 'semver'
+    | 'keepNtagged'
+    | 'keepNperGroup'
+    | 'keepNuntagged'
+    | 'olderThan'
+  >
+): Rule[] {
+  const rules: Rule[] = []
+
+  const olderThan =
+    config.olderThan != null ? { olderThan: config.olderThan } : {}
+
+  if (config.excludeTags) {
+    rules.push({
+      name: 'exclude-tags',
+      tags: config.excludeTags,
+      action: 'keep'
+    })
+  }
+
+  if (config.includeTags) {
+    rules.push({
+      name: 'include-tags',
+      tags: config.includeTags,
+      action: 'delete'
+    })
+  }
+
+  if (config.closedPrTags) {
+    rules.push({
+      name: 'closed-pr-tags',
+      staleRefs: { type: 'pull-request', template: config.closedPrTags },
+      action: 'delete'
+    })
+  }
+
+  if (config.deletedBranchTags) {
+    rules.push({
+      name: 'deleted-branch-tags',
+      staleRefs: { type: 'branch', template: config.deletedBranchTags },
+      action: 'delete'
+    })
+  }
+
+  if (config.semver) {
+    rules.push({
+      name: 'semver',
+      semver: config.semver,
+      ...olderThan,
+      action: 'delete'
+    })
+  }
+
+  // Without a count, an age threshold alone decides.
+  if (config.keepNtagged != null || config.olderThan != null) {
+    rules.push({
+      name: 'keep-n-tagged',
+      ...(config.keepNtagged != null ? { keepN: config.keepNtagged } : {}),
+      ...(config.keepNperGroup ? { groupBy: config.keepNperGroup } : {}),
+      ...olderThan,
+      action: 'delete'
+    })
+  }
+
+  if (config.keepNuntagged != null || config.olderThan != null) {
+    rules.push({
+      name: 'keep-n-untagged',
+      untagged: true,
+      ...(config.keepNuntagged != null ? { keepN: config.keepNuntagged } : {}),
+      ...olderThan,
+      action: 'delete'
+    })
+  }
+
+  return rules
+}
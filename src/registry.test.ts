@@ -0,0 +1,53 @@
+import { FakeGhcr } from './fake-ghcr'
+import { OciRegistryClient } from './registry'
+
+const digest = `sha256:${'1'.repeat(64)}`
+
+describe('OciRegistryClient.getReferrers', () => {
+  const ghcr = new FakeGhcr()
+  let client: OciRegistryClient
+
+  beforeAll(async () => {
+    await ghcr.start()
+  })
+
+  afterAll(async () => {
+    await ghcr.stop()
+  })
+
+  beforeEach(() => {
+    ghcr.reset()
+    client = new OciRegistryClient({
+      url: `${ghcr.url}/`,
+      repository: 'owner/package',
+      password: ghcr.token
+    })
+  })
+
+  const referrersRequests = (): string[] =>
+    ghcr.requests.filter(r => r.includes('/referrers/'))
+
+  it.each([403, 404, 405, 501])(
+    'should fall back to the tag schema for status %d',
+    async status => {
+      ghcr.referrersStatus = status
+
+      expect(await client.getReferrers(digest)).toEqual([])
+      expect(await client.getReferrers(digest)).toEqual([])
+
+      // The first request is answered with an authentication challenge.
+      expect(referrersRequests()).toHaveLength(2)
+      expect(client.referrersSupported).toBe(false)
+    }
+  )
+
+  it('should only fail for transient errors after retrying', async () => {
+    ghcr.referrersStatus = 503
+
+    await expect(client.getReferrers(digest)).rejects.toThrow('503')
+
+    // The challenge, followed by the request and its three retries.
+    expect(referrersRequests()).toHaveLength(5)
+    expect(client.referrersSupported).toBe(true)
+  })
+})
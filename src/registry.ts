@@ -0,0 +1,369 @@
+import * as core from '@actions/core'
+import axios, {
+  AxiosInstance,
+  AxiosRequestConfig,
+  AxiosResponse,
+  isAxiosError
+} from 'axios'
+import axiosRetry, { isNetworkOrIdempotentRequestError } from 'axios-retry'
+import type { Config } from './config'
+import { parseManifest } from './parser'
+import { Manifest, ManifestReference } from './schemas'
+import { isValidChallenge, parseChallenge } from './utils'
+
+/**
+ * The manifest media types accepted from registries.
+ */
+export const MANIFEST_MEDIA_TYPES = [
+  'application/vnd.oci.image.manifest.v1+json',
+  'application/vnd.oci.image.index.v1+json',
+  'application/vnd.oci.artifact.manifest.v1+json',
+  'application/vnd.docker.distribution.manifest.list.v2+json',
+  'application/vnd.docker.distribution.manifest.v2+json',
+  // Deprecated Docker schema 1, only served if a manifest is not available in a newer format.
+  'application/vnd.docker.distribution.manifest.v1+prettyjws',
+  'application/vnd.docker.distribution.manifest.v1+json'
+]
+
+// Statuses of responses to the referrers API by registries that do not support it.
+const REFERRERS_UNSUPPORTED_STATUSES = [400, 403, 404, 405, 406, 501]
+
+/**
+ * Provides access to a single repository of a container registry.
+ */
+export interface RegistryClient {
+  /**
+   * Logs in to the registry.
+   */
+  login(): Promise<void>
+
+  /**
+   * Lists all tags of the repository.
+   */
+  listTags(): Promise<string[]>
+
+  /**
+   * Resolves a tag or digest to the digest of the manifest.
+   */
+  resolveDigest(reference: string): Promise<string>
+
+  /**
+   * Retrieves a manifest by tag or digest.
+   */
+  getManifest(reference: string): Promise<Manifest>
+
+  /**
+   * Retrieves a JSON blob by digest, e.g. the configuration of an image.
+   */
+  getBlob(digest: string): Promise<unknown>
+
+  /**
+   * Puts a manifest under a tag and returns the digest of the manifest, if reported by the registry.
+   */
+  putManifest(tag: string, manifest: Manifest): Promise<string | undefined>
+
+  /**
+   * Deletes a manifest by digest, or a tag if the registry supports it.
+   */
+  deleteManifest(reference: string): Promise<void>
+
+  /**
+   * Lists the descriptors of the manifests referring to a manifest, using the OCI referrers API.
+   */
+  getReferrers(digest: string): Promise<ManifestReference[]>
+}
+
+/**
+ * Options of a registry client.
+ */
+export interface RegistryOptions {
+  // The base URL of the registry, e.g. `https://registry.example.com/`.
+  url: string
+  // The name of the repository, e.g. `owner/package`.
+  repository: string
+  // The user name for authentication, if any.
+  username?: string
+  // The password or token for authentication, if any.
+  password?: string
+}
+
+/**
+ * Provides access to a repository of a registry implementing the OCI Distribution Specification.
+ *
+ * Handles both `Bearer` token and `Basic` authentication challenges.
+ */
+export class OciRegistryClient implements RegistryClient {
+  // The client options.
+  options: RegistryOptions
+
+  // HTTP client.
+  axios: AxiosInstance
+
+  // Whether the registry supports the OCI referrers API, until found otherwise.
+  referrersSupported = true
+
+  constructor(options: RegistryOptions) {
+    this.options = options
+
+    // Create HTTP client.
+    this.axios = axios.create({
+      baseURL: options.url
+    })
+    // Set up retries. A registry that does not implement an endpoint won't do so on the next attempt.
+    axiosRetry(this.axios, {
+      retries: 3,
+      retryCondition: error =>
+        isNetworkOrIdempotentRequestError(error) &&
+        error.response?.status !== 501
+    })
+    // Set up default request headers.
+    this.axios.defaults.headers.common.Accept = MANIFEST_MEDIA_TYPES.join(', ')
+  }
+
+  /**
+   * The host name of the registry, used in messages.
+   */
+  get host(): string {
+    return new URL(this.options.url).host
+  }
+
+  /**
+   * Handles the authentication challenge.
+   * @param challenge - The authentication challenge string.
+   * @returns A Promise that resolves to the value of the authorization header.
+   * @throws An error if the authentication challenge is invalid or the login fails.
+   */
+  protected async handleAuthenticationChallenge(
+    challenge: string
+  ): Promise<string> {
+    const credentials =
+      this.options.password != null
+        ? {
+            username: this.options.username ?? 'token',
+            password: this.options.password
+          }
+        : undefined
+
+    if (challenge?.startsWith('Basic')) {
+      if (credentials == null) {
+        throw new Error(`${this.host} requires credentials`)
+      }
+      return `Basic ${Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64')}`
+    }
+
+    // Parse the authentication challenge.
+    const attributes = parseChallenge(challenge)
+
+    // Check if the challenge is valid.
+    if (isValidChallenge(attributes)) {
+      // Try to authenticate using the configured credentials.
+      const auth = axios.create()
+      axiosRetry(auth, { retries: 3 })
+      const tokenResponse = await auth.get(
+        `${attributes.get('realm')}?service=${attributes.get('service')}&scope=${attributes.get('scope')}`,
+        credentials != null ? { auth: credentials } : {}
+      )
+
+      // Try to extract the token from the returned data. Some registries return it as `access_token`.
+      const token = tokenResponse.data.token ?? tokenResponse.data.access_token
+
+      if (token) {
+        return `Bearer ${token}`
+      } else {
+        throw new Error(
+          `${this.host} login failed: ${JSON.stringify(tokenResponse.data)}`
+        )
+      }
+    } else {
+      throw new Error(`invalid www-authenticate challenge ${challenge}`)
+    }
+  }
+
+  /**
+   * Sends a request to the registry, authenticating on demand.
+   *
+   * If the registry answers with an authentication challenge, the challenge is handled and the request is sent once
+   * more. The resulting authorization is used for all further requests.
+   *
+   * @param config - The request configuration.
+   * @returns A Promise that resolves to the response.
+   */
+  protected async request<T>(
+    config: AxiosRequestConfig
+  ): Promise<AxiosResponse<T>> {
+    try {
+      return await this.axios.request<T>(config)
+    } catch (error) {
+      if (isAxiosError(error) && error.response?.status === 401) {
+        const challenge = error.response.headers['www-authenticate']
+        this.axios.defaults.headers.common.Authorization =
+          await this.handleAuthenticationChallenge(challenge)
+        return await this.axios.request<T>(config)
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Logs in to the registry.
+   * This method retrieves a token and handles authentication challenges if necessary.
+   * @returns A Promise that resolves when the login is successful.
+   * @throws If an error occurs during the login process.
+   */
+  async login(): Promise<void> {
+    await this.request({
+      method: 'GET',
+      url: `/v2/${this.options.repository}/tags/list`
+    })
+  }
+
+  async listTags(): Promise<string[]> {
+    const tags: string[] = []
+
+    // Follow the pagination links, if any.
+    let url: string | undefined = `/v2/${this.options.repository}/tags/list`
+    while (url) {
+      const response: AxiosResponse<{ tags: string[] | null }> =
+        await this.request<{ tags: string[] | null }>({ method: 'GET', url })
+      tags.push(...(response.data.tags ?? []))
+
+      const link: string | undefined = response.headers['link']
+      url = link ? /<([^>]+)>;\s*rel="next"/.exec(link)?.[1] : undefined
+    }
+
+    return tags
+  }
+
+  async resolveDigest(reference: string): Promise<string> {
+    const response = await this.request({
+      method: 'HEAD',
+      url: `/v2/${this.options.repository}/manifests/${reference}`
+    })
+
+    const digest = response.headers['docker-content-digest']
+    if (!digest) {
+      throw new Error(`${this.host} did not report a digest for ${reference}`)
+    }
+    return digest
+  }
+
+  async getManifest(reference: string): Promise<Manifest> {
+    // Retrieve the manifest.
+    const response = await this.request<Manifest>({
+      method: 'GET',
+      url: `/v2/${this.options.repository}/manifests/${reference}`
+    })
+
+    // Assume the content type, or the default mediaType, if not present. Docker schema 1 manifests never have one.
+    if (response?.data && !response?.data['mediaType']) {
+      const contentType: string | undefined =
+        response.headers?.['content-type']?.split(';')[0]
+      response.data['mediaType'] = MANIFEST_MEDIA_TYPES.includes(
+        contentType ?? ''
+      )
+        ? (contentType as string)
+        : 'application/vnd.oci.image.index.v1+json'
+    }
+
+    return parseManifest(JSON.stringify(response?.data)) as Manifest
+  }
+
+  async getBlob(digest: string): Promise<unknown> {
+    const response = await this.request<unknown>({
+      method: 'GET',
+      url: `/v2/${this.options.repository}/blobs/${digest}`,
+      headers: { Accept: 'application/json' }
+    })
+    return response.data
+  }
+
+  async putManifest(
+    tag: string,
+    manifest: Manifest
+  ): Promise<string | undefined> {
+    const url = `/v2/${this.options.repository}/manifests/${tag}`
+    const contentType = manifest.mediaType
+
+    let response: AxiosResponse
+    try {
+      // Try to put the manifest without authorization to receive a challenge for the push scope.
+      const auth = axios.create({ baseURL: this.options.url })
+      response = await auth.put(url, manifest, {
+        headers: { 'Content-Type': contentType }
+      })
+    } catch (error) {
+      if (isAxiosError(error) && error.response?.status === 401) {
+        const authorization = await this.handleAuthenticationChallenge(
+          error.response.headers['www-authenticate']
+        )
+
+        response = await this.axios.put(url, manifest, {
+          headers: {
+            'Content-Type': contentType,
+            Authorization: authorization
+          }
+        })
+      } else {
+        throw error
+      }
+    }
+
+    const digest: string | undefined = response.headers['docker-content-digest']
+    core.debug(`New digest: ${digest}`)
+    return digest
+  }
+
+  async deleteManifest(reference: string): Promise<void> {
+    await this.request({
+      method: 'DELETE',
+      url: `/v2/${this.options.repository}/manifests/${reference}`
+    })
+  }
+
+  async getReferrers(digest: string): Promise<ManifestReference[]> {
+    if (!this.referrersSupported) return []
+
+    try {
+      const response = await this.request<Manifest>({
+        method: 'GET',
+        url: `/v2/${this.options.repository}/referrers/${digest}`,
+        headers: { Accept: 'application/vnd.oci.image.index.v1+json' }
+      })
+      return response.data.manifests ?? []
+    } catch (error) {
+      // Registries that do not implement the referrers API, or do not allow using it, answer with a client error or 501.
+      // Don't ask again, the referrers are then found by the tag schema. Transient errors were already retried.
+      const status = isAxiosError(error) ? error.response?.status : undefined
+      if (status != null && REFERRERS_UNSUPPORTED_STATUSES.includes(status)) {
+        core.debug(
+          `${this.host} does not support the referrers API (status ${status}).`
+        )
+        this.referrersSupported = false
+        return []
+      }
+      throw error
+    }
+  }
+}
+
+/**
+ * Provides access to a package in the GitHub Container Registry, or the container registry of GitHub Enterprise Server.
+ *
+ * Manifests cannot be deleted through the registry API of ghcr.io, but only through the GitHub Packages API.
+ */
+export class GhcrRegistryClient extends OciRegistryClient {
+  constructor(config: Config) {
+    super({
+      url: config.registryUrl ?? 'https://ghcr.io/',
+      repository: `${config.owner}/${config.package}`,
+      username: 'token',
+      password: config.token
+    })
+  }
+
+  async deleteManifest(reference: string): Promise<void> {
+    throw new Error(
+      `Cannot delete ${reference}: ${this.host} only supports deleting package versions through the GitHub Packages API`
+    )
+  }
+}
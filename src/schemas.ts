@@ -8,37 +8,53 @@ import { z } from 'zod'
 
 /**
  * Manifest reference used in multi-architecture images and OCI referrers to link manifests.
+ *
+ * Descriptors returned by the OCI referrers API also carry the `artifactType` of the referrer.
  */
 export const manifestReferenceSchema = z
   .object({
     mediaType: z.string(),
+    artifactType: z.string().optional(),
     digest: z
       .string()
       .regex(/^sha256:[a-f0-9]+$/, 'Invalid SHA256 digest format')
   })
   .passthrough()
 
+/**
+ * Manifest media types with dedicated models.
+ */
+export const manifestMediaTypeSchema = z.enum(
+  [
+    'application/vnd.oci.image.manifest.v1+json',
+    'application/vnd.oci.image.index.v1+json',
+    'application/vnd.oci.artifact.manifest.v1+json',
+    'application/vnd.docker.distribution.manifest.list.v2+json',
+    'application/vnd.docker.distribution.manifest.v2+json',
+    'application/vnd.docker.distribution.manifest.v1+prettyjws',
+    'application/vnd.docker.distribution.manifest.v1+json'
+  ],
+  'Invalid or unsupported media type'
+)
+
 /**
  * Container image manifest supporting both OCI and Docker registry formats.
  *
- * The `mediaType` enum enables discriminated union handling in the parser.
- * - Single-arch images use `layers`
+ * The `mediaType` is not restricted to `manifestMediaTypeSchema`, so that manifests of unknown media types can still be
+ * handled as opaque manifests.
+ * - Single-arch images use `layers`, or `fsLayers` in the deprecated Docker schema 1
  * - Multi-arch images use `manifests`
- * - OCI 1.1 referrers use `subject`
+ * - OCI 1.1 referrers use `subject`, and artifacts `artifactType` or a non-image `config`
+ * - Deprecated OCI artifact manifests use `blobs` instead of `layers`
  */
 export const manifestSchema = z
   .object({
-    mediaType: z.enum(
-      [
-        'application/vnd.oci.image.manifest.v1+json',
-        'application/vnd.oci.image.index.v1+json',
-        'application/vnd.docker.distribution.manifest.list.v2+json',
-        'application/vnd.docker.distribution.manifest.v2+json'
-      ],
-      'Invalid or unsupported media type'
-    ),
+    mediaType: z.string(),
+    artifactType: z.string().optional(),
+    config: manifestReferenceSchema.optional(),
     manifests: z.array(manifestReferenceSchema).optional(),
     layers: z.array(manifestReferenceSchema).optional(),
+    blobs: z.array(manifestReferenceSchema).optional(),
     subject: manifestReferenceSchema.optional()
   })
   .passthrough()
@@ -73,6 +89,99 @@ export const packageVersionSchema = z
   })
   .passthrough()
 
+/**
+ * Semantic version limits of a retention rule.
+ */
+export const semverPolicySchema = z
+  .object({
+    'keep-n-patch': z.number().int().nonnegative().optional(),
+    'keep-n-minor': z.number().int().nonnegative().optional(),
+    'keep-n-prerelease': z.number().int().nonnegative().optional()
+  })
+  .strict()
+
+/**
+ * A single retention rule of a policy file.
+ *
+ * In contrast to API responses, unknown properties are rejected to catch typos.
+ */
+export const ruleSchema = z
+  .object({
+    name: z.string().optional(),
+    tags: z.string().optional(),
+    untagged: z.boolean().optional(),
+    'closed-pr-tags': z.string().optional(),
+    'deleted-branch-tags': z.string().optional(),
+    types: z
+      .array(
+        z.enum([
+          'multi-arch image',
+          'single-arch image',
+          'attestation',
+          'signature',
+          'sbom',
+          'helm-chart',
+          'wasm',
+          'generic-artifact',
+          'unknown'
+        ])
+      )
+      .optional(),
+    'older-than': z.string().optional(),
+    'keep-n': z.number().int().nonnegative().optional(),
+    'group-by': z.string().optional(),
+    semver: semverPolicySchema.optional(),
+    action: z.enum(['keep', 'delete']).optional()
+  })
+  .strict()
+
+/**
+ * A policy file with an ordered list of retention rules.
+ */
+export const policySchema = z
+  .object({
+    rules: z.array(ruleSchema)
+  })
+  .strict()
+
+/**
+ * A digest, e.g. `sha256:0123...`.
+ */
+const digestSchema = z
+  .string()
+  .regex(/^sha256:[a-f0-9]+$/, 'Invalid SHA256 digest format')
+
+/**
+ * A version of a scenario fixture.
+ *
+ * The manifest is either given verbatim, e.g. when snapshotted from a live package, or synthesized from the media type,
+ * children, subject and layers.
+ */
+export const fixtureVersionSchema = z
+  .object({
+    digest: digestSchema,
+    tags: z.array(z.string()).optional(),
+    'created-at': z.string().datetime().optional(),
+    'updated-at': z.string().datetime().optional(),
+    manifest: manifestSchema.optional(),
+    'media-type': z.string().optional(),
+    'artifact-type': z.string().optional(),
+    children: z.array(digestSchema).optional(),
+    subject: digestSchema.optional(),
+    layers: z.array(z.string()).optional()
+  })
+  .strict()
+
+/**
+ * A scenario fixture describing the versions of a package, from oldest to newest.
+ */
+export const fixtureSchema = z
+  .object({
+    package: z.string().optional(),
+    versions: z.array(fixtureVersionSchema)
+  })
+  .strict()
+
 // Types inferred from schemas ensure runtime validation and static types stay in sync
 export type ManifestReference = z.infer<typeof manifestReferenceSchema>
 export type Manifest = z.infer<typeof manifestSchema>
@@ -80,3 +189,7 @@ export type PackageVersionMetadata = z.infer<
   typeof packageVersionMetadataSchema
 >
 export type PackageVersion = z.infer<typeof packageVersionSchema>
+export type RuleInput = z.infer<typeof ruleSchema>
+export type PolicyInput = z.infer<typeof policySchema>
+export type FixtureVersionInput = z.infer<typeof fixtureVersionSchema>
+export type FixtureInput = z.infer<typeof fixtureSchema>
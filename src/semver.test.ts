@@ -0,0 +1,136 @@
+import { compareSemVer, parseSemVer, selectSemVerTags, SemVer } from './semver'
+
+describe('parseSemVer', () => {
+  it('should parse a release', () => {
+    expect(parseSemVer('1.2.3')).toEqual({
+      major: 1,
+      minor: 2,
+      patch: 3,
+      prerelease: []
+    })
+  })
+
+  it('should parse a release with a leading v', () => {
+    expect(parseSemVer('v10.20.30')).toEqual({
+      major: 10,
+      minor: 20,
+      patch: 30,
+      prerelease: []
+    })
+  })
+
+  it('should parse a pre-release', () => {
+    expect(parseSemVer('1.0.0-rc.1')).toEqual({
+      major: 1,
+      minor: 0,
+      patch: 0,
+      prerelease: ['rc', '1']
+    })
+  })
+
+  it('should return undefined for tags that are not semantic versions', () => {
+    expect(parseSemVer('latest')).toBeUndefined()
+    expect(parseSemVer('1.2')).toBeUndefined()
+    expect(parseSemVer('01.2.3')).toBeUndefined()
+    expect(parseSemVer('1.2.3-')).toBeUndefined()
+    expect(parseSemVer('sha256-abc')).toBeUndefined()
+  })
+})
+
+describe('compareSemVer', () => {
+  const v = (tag: string): SemVer => parseSemVer(tag) as SemVer
+
+  it('should order by major, minor and patch', () => {
+    expect(compareSemVer(v('1.0.0'), v('2.0.0'))).toBeLessThan(0)
+    expect(compareSemVer(v('2.1.0'), v('2.0.9'))).toBeGreaterThan(0)
+    expect(compareSemVer(v('2.1.10'), v('2.1.9'))).toBeGreaterThan(0)
+    expect(compareSemVer(v('v2.1.1'), v('2.1.1'))).toBe(0)
+  })
+
+  it('should order pre-releases before the release', () => {
+    expect(compareSemVer(v('1.0.0-rc.1'), v('1.0.0'))).toBeLessThan(0)
+    expect(compareSemVer(v('1.0.0'), v('1.0.0-rc.1'))).toBeGreaterThan(0)
+  })
+
+  it('should order pre-releases according to the specification', () => {
+    const ordered = [
+      '1.0.0-alpha',
+      '1.0.0-alpha.1',
+      '1.0.0-alpha.beta',
+      '1.0.0-beta',
+      '1.0.0-beta.2',
+      '1.0.0-beta.11',
+      '1.0.0-rc.1',
+      '1.0.0'
+    ]
+    for (let i = 0; i < ordered.length - 1; i++) {
+      expect(compareSemVer(v(ordered[i]), v(ordered[i + 1]))).toBeLessThan(0)
+    }
+  })
+})
+
+describe('selectSemVerTags', () => {
+  const tags = [
+    'latest',
+    '1.0.0',
+    '1.0.1',
+    '1.1.0',
+    '1.1.1',
+    '1.1.2',
+    '2.0.0',
+    '2.0.1',
+    '2.1.0-rc.1',
+    '2.1.0-rc.2',
+    '2.1.0-rc.3'
+  ]
+
+  it('should keep the most recent patch releases per minor version', () => {
+    expect(selectSemVerTags(tags, { keepNpatch: 1 })).toEqual({
+      keep: ['2.0.1', '1.1.2', '1.0.1'],
+      delete: ['2.0.0', '1.1.1', '1.1.0', '1.0.0']
+    })
+  })
+
+  it('should keep the most recent minor versions per major version', () => {
+    expect(selectSemVerTags(tags, { keepNminor: 1 })).toEqual({
+      keep: ['2.0.1', '2.0.0', '1.1.2', '1.1.1', '1.1.0'],
+      delete: ['1.0.1', '1.0.0']
+    })
+  })
+
+  it('should combine minor and patch limits', () => {
+    expect(selectSemVerTags(tags, { keepNminor: 1, keepNpatch: 2 })).toEqual({
+      keep: ['2.0.1', '2.0.0', '1.1.2', '1.1.1'],
+      delete: ['1.1.0', '1.0.1', '1.0.0']
+    })
+  })
+
+  it('should always keep the highest release', () => {
+    expect(selectSemVerTags(tags, { keepNminor: 0, keepNpatch: 0 })).toEqual({
+      keep: ['2.0.1'],
+      delete: ['2.0.0', '1.1.2', '1.1.1', '1.1.0', '1.0.1', '1.0.0']
+    })
+  })
+
+  it('should keep all tags of the same version together', () => {
+    expect(
+      selectSemVerTags(['v1.0.0', '1.0.0', '1.0.1', 'v1.0.1'], {
+        keepNpatch: 1
+      })
+    ).toEqual({
+      keep: ['1.0.1', 'v1.0.1'],
+      delete: ['v1.0.0', '1.0.0']
+    })
+  })
+
+  it('should handle pre-releases separately', () => {
+    expect(selectSemVerTags(tags, { keepNprerelease: 1 })).toEqual({
+      keep: ['2.1.0-rc.3'],
+      delete: ['2.1.0-rc.2', '2.1.0-rc.1']
+    })
+  })
+
+  it('should neither keep nor delete anything without limits', () => {
+    expect(selectSemVerTags(tags, {})).toEqual({ keep: [], delete: [] })
+  })
+})
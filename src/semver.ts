@@ -0,0 +1,171 @@
+/**
+ * A semantic version parsed from a tag.
+ */
+export interface SemVer {
+  major: number
+  minor: number
+  patch: number
+  // The dot-separated pre-release identifiers, empty for releases.
+  prerelease: string[]
+}
+
+/**
+ * Retention policy for tags that are semantic versions.
+ */
+export interface SemVerPolicy {
+  // Number of most recent patch releases to keep per minor version.
+  keepNpatch?: number
+  // Number of most recent minor versions to keep per major version.
+  keepNminor?: number
+  // Number of most recent pre-releases to keep per version.
+  keepNprerelease?: number
+}
+
+/**
+ * Parses a tag as a semantic version.
+ *
+ * The tag may have a leading `v`, e.g. `v1.2.3` or `1.2.3-rc.1`. Build metadata is not supported since `+` is not
+ * allowed in tags.
+ *
+ * @param tag - The tag to parse.
+ * @returns The semantic version, or undefined if the tag is not a semantic version.
+ */
+export function parseSemVer(tag: string): SemVer | undefined {
+  const match = RegExp(
+    /^v?(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?$/
+  ).exec(tag)
+
+  if (!match) return undefined
+
+  return {
+    major: parseInt(match[1]),
+    minor: parseInt(match[2]),
+    patch: parseInt(match[3]),
+    prerelease: match[4] ? match[4].split('.') : []
+  }
+}
+
+/**
+ * Compares two semantic versions by precedence.
+ *
+ * @param a - The first version.
+ * @param b - The second version.
+ * @returns A negative number if a < b, a positive number if a > b, or zero if both have the same precedence.
+ */
+export function compareSemVer(a: SemVer, b: SemVer): number {
+  if (a.major !== b.major) return a.major - b.major
+  if (a.minor !== b.minor) return a.minor - b.minor
+  if (a.patch !== b.patch) return a.patch - b.patch
+
+  // A release has higher precedence than its pre-releases.
+  if (a.prerelease.length === 0 || b.prerelease.length === 0) {
+    return b.prerelease.length - a.prerelease.length
+  }
+
+  for (let i = 0; i < Math.min(a.prerelease.length, b.prerelease.length); i++) {
+    const x = a.prerelease[i]
+    const y = b.prerelease[i]
+    const xNum = /^\d+$/.test(x)
+    const yNum = /^\d+$/.test(y)
+
+    if (xNum && yNum) {
+      if (parseInt(x) !== parseInt(y)) return parseInt(x) - parseInt(y)
+    } else if (xNum !== yNum) {
+      // Numeric identifiers have lower precedence than alphanumeric ones.
+      return xNum ? -1 : 1
+    } else if (x !== y) {
+      return x < y ? -1 : 1
+    }
+  }
+
+  return a.prerelease.length - b.prerelease.length
+}
+
+/**
+ * Selects the tags to keep and delete according to a semantic version policy.
+ *
+ * Releases are only considered if a patch or minor limit is set. For each major version, the most recent
+ * `keepNminor` minor versions are kept, and for each kept minor version, the most recent `keepNpatch` patch releases.
+ * A missing limit keeps all. The highest release is always kept.
+ *
+ * Pre-releases are only considered if `keepNprerelease` is set. For each version, the most recent `keepNprerelease`
+ * pre-releases are kept.
+ *
+ * Tags that are not semantic versions, or not considered by the policy, are neither kept nor deleted.
+ *
+ * @param tags - The tags to select from.
+ * @param policy - The retention policy.
+ * @returns The tags to keep and to delete, each ordered from highest to lowest version.
+ */
+export function selectSemVerTags(
+  tags: string[],
+  policy: SemVerPolicy
+): { keep: string[]; delete: string[] } {
+  const keep: string[] = []
+  const remove: string[] = []
+
+  // Parse tags and order by descending precedence.
+  const versions = tags
+    .map(tag => [tag, parseSemVer(tag)] as [string, SemVer | undefined])
+    .filter((x): x is [string, SemVer] => x[1] !== undefined)
+    .sort(([, a], [, b]) => compareSemVer(b, a))
+
+  const releases = versions.filter(([, v]) => v.prerelease.length === 0)
+  const prereleases = versions.filter(([, v]) => v.prerelease.length > 0)
+
+  if (policy.keepNpatch != null || policy.keepNminor != null) {
+    // Distinct minor versions per major version, and patch versions per minor version, in descending order.
+    const minors = new Map<number, number[]>()
+    const patches = new Map<string, number[]>()
+
+    for (const [, v] of releases) {
+      const m = minors.get(v.major) ?? []
+      if (!m.includes(v.minor)) m.push(v.minor)
+      minors.set(v.major, m)
+
+      const p = patches.get(`${v.major}.${v.minor}`) ?? []
+      if (!p.includes(v.patch)) p.push(v.patch)
+      patches.set(`${v.major}.${v.minor}`, p)
+    }
+
+    const highest = releases.length > 0 ? releases[0][1] : undefined
+
+    for (const [tag, v] of releases) {
+      const minorRank = (minors.get(v.major) ?? []).indexOf(v.minor)
+      const patchRank = (patches.get(`${v.major}.${v.minor}`) ?? []).indexOf(
+        v.patch
+      )
+
+      const kept =
+        (policy.keepNminor == null || minorRank < policy.keepNminor) &&
+        (policy.keepNpatch == null || patchRank < policy.keepNpatch)
+
+      if (kept || (highest && compareSemVer(v, highest) === 0)) {
+        keep.push(tag)
+      } else {
+        remove.push(tag)
+      }
+    }
+  }
+
+  if (policy.keepNprerelease != null) {
+    // Distinct pre-releases per version, in descending order.
+    const ranks = new Map<string, string[]>()
+
+    for (const [tag, v] of prereleases) {
+      const key = `${v.major}.${v.minor}.${v.patch}`
+      const p = ranks.get(key) ?? []
+      const id = v.prerelease.join('.')
+      if (!p.includes(id)) p.push(id)
+      ranks.set(key, p)
+
+      if (p.indexOf(id) < policy.keepNprerelease) {
+        keep.push(tag)
+      } else {
+        remove.push(tag)
+      }
+    }
+  }
+
+  return { keep, delete: remove }
+}
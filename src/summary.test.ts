@@ -0,0 +1,136 @@
+import * as core from '@actions/core'
+import { PackagePlan, PlanVersion } from './plan'
+import { addSummary, renderPlanTree } from './summary'
+
+const createVersion = (
+  digest: string,
+  parent: string | null,
+  action: 'keep' | 'delete',
+  tags: string[] = []
+): PlanVersion => ({
+  id: 0,
+  digest,
+  tags,
+  type: parent == null ? 'multi-arch image' : 'single-arch image',
+  parent,
+  action,
+  reason: `${action} by test`,
+  decision: { action, rule: 'test' }
+})
+
+const versions: PlanVersion[] = [
+  createVersion('sha256:a', null, 'keep', ['latest']),
+  createVersion('sha256:a1', 'sha256:a', 'keep'),
+  createVersion('sha256:a2', 'sha256:a', 'keep'),
+  createVersion('sha256:b', null, 'delete', ['old']),
+  createVersion('sha256:b1', 'sha256:b', 'delete')
+]
+
+describe('renderPlanTree', () => {
+  it('should render all versions as a tree', () => {
+    expect(renderPlanTree(versions)).toEqual([
+      '-  sha256:a multi-arch image [latest]',
+      '   ├─ sha256:a1 single-arch image',
+      '   └─ sha256:a2 single-arch image',
+      '-  sha256:b multi-arch image [old]',
+      '   └─ sha256:b1 single-arch image'
+    ])
+  })
+
+  it('should only render versions accepted by the filter', () => {
+    expect(renderPlanTree(versions, v => v.action === 'keep')).toEqual([
+      '-  sha256:a multi-arch image [latest]',
+      '   ├─ sha256:a1 single-arch image',
+      '   └─ sha256:a2 single-arch image'
+    ])
+  })
+
+  it('should render a version whose parent is filtered out as a root', () => {
+    expect(renderPlanTree(versions, v => v.digest !== 'sha256:a')).toEqual([
+      '-  sha256:a1 single-arch image',
+      '-  sha256:a2 single-arch image',
+      '-  sha256:b multi-arch image [old]',
+      '   └─ sha256:b1 single-arch image'
+    ])
+  })
+})
+
+describe('addSummary', () => {
+  const plan: PackagePlan = {
+    owner: 'owner',
+    package: 'package',
+    tags: { delete: ['old'], keep: ['latest'] },
+    versions
+  }
+
+  afterEach(() => {
+    core.summary.emptyBuffer()
+  })
+
+  it('should add a section for each package', () => {
+    addSummary({ dryRun: false, packages: [plan] })
+    const html = core.summary.stringify()
+
+    expect(html).toContain('<h2>Container Repository Cleanup</h2>')
+    expect(html).toContain('<h3>owner/package</h3>')
+    expect(html).toContain(
+      '<tr><td>multi-arch image</td><td>1</td><td>1</td></tr>'
+    )
+    expect(html).toContain(
+      '<tr><td>single-arch image</td><td>2</td><td>1</td></tr>'
+    )
+    expect(html).toContain('Tags (1 deleted, 1 kept)')
+    expect(html).toContain('<tr><td>old</td><td>sha256:b</td><td>delete</td>')
+    expect(html).toContain('Versions (2 deleted, 3 kept)')
+    expect(html).toContain('<summary>Before</summary>')
+    expect(html).toContain('<summary>After</summary>')
+  })
+
+  it('should mark deletions that did not succeed', () => {
+    addSummary({
+      dryRun: false,
+      packages: [
+        {
+          ...plan,
+          tags: { ...plan.tags, status: { old: 'pending' } },
+          versions: [
+            ...versions.slice(0, 3),
+            { ...versions[3], status: 'deleted' },
+            { ...versions[4], status: 'failed' }
+          ]
+        }
+      ]
+    })
+    const html = core.summary.stringify()
+
+    expect(html).toContain(
+      '<tr><td>single-arch image</td><td>2</td><td>0</td><td>1</td></tr>'
+    )
+    expect(html).toContain(
+      '<tr><td>old</td><td>sha256:b</td><td>delete (not attempted)</td>'
+    )
+    expect(html).toContain('Versions (1 deleted, 3 kept, 1 not deleted)')
+    expect(html).toContain('<td>delete (failed)</td>')
+    // The version that could not be deleted remains.
+    expect(html).toMatch(/After<\/summary><pre>[^<]*sha256:b1/)
+  })
+
+  it('should mark a dry run', () => {
+    addSummary({ dryRun: true, packages: [] })
+    const html = core.summary.stringify()
+
+    expect(html).toContain('<h2>Container Repository Cleanup (dry run)</h2>')
+    expect(html).toContain('No packages cleaned up.')
+  })
+
+  it('should list failed packages', () => {
+    addSummary(
+      { dryRun: false, packages: [] },
+      new Map([['package', 'not <found>']])
+    )
+    const html = core.summary.stringify()
+
+    expect(html).toContain('<li>package: not &lt;found&gt;</li>')
+    expect(html).not.toContain('No packages cleaned up.')
+  })
+})
@@ -0,0 +1,243 @@
+import * as core from '@actions/core'
+import { PackageVersionType } from './models'
+import { DeletionStatus, PackagePlan, Plan, PlanVersion } from './plan'
+import { Node, renderTree } from './tree'
+
+/**
+ * A version from a deletion plan arranged in a tree.
+ */
+interface PlanNode extends Node<PlanNode> {
+  version: PlanVersion
+}
+
+/**
+ * Renders the versions of a deletion plan as a tree.
+ *
+ * Only versions accepted by the filter are rendered. A version whose parent is filtered out becomes a root itself.
+ *
+ * @param versions - The versions of the deletion plan.
+ * @param filter - Selects the versions to render.
+ * @returns The lines of the rendered tree.
+ */
+export function renderPlanTree(
+  versions: PlanVersion[],
+  filter: (v: PlanVersion) => boolean = () => true
+): string[] {
+  // Create a node for each selected version.
+  const nodes = new Map<string, PlanNode>()
+  for (const v of versions.filter(filter)) {
+    nodes.set(v.digest, { version: v, children: [], parent: null })
+  }
+
+  // Link each node to its parent, if the parent is selected as well.
+  const roots: PlanNode[] = []
+  for (const n of nodes.values()) {
+    const parent =
+      n.version.parent != null ? nodes.get(n.version.parent) : undefined
+    if (parent) {
+      n.parent = parent
+      parent.children.push(n)
+    } else {
+      roots.push(n)
+    }
+  }
+
+  const lines: string[] = []
+  for (const r of roots) {
+    renderTree<PlanNode>(
+      r,
+      n => n.children,
+      (n, prefix) => {
+        const v = n.version
+        lines.push(
+          `${n.parent == null ? '- ' : '  '}${prefix} ${v.digest} ${v.type}${v.tags.length > 0 ? ` [${v.tags.join(', ')}]` : ''}`
+        )
+      }
+    )
+  }
+  return lines
+}
+
+/**
+ * Escapes text for inclusion in HTML.
+ */
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+/**
+ * Describes the action for a tag or version, including the outcome of a deletion that did not succeed.
+ *
+ * @param action - The planned action.
+ * @param status - The outcome of the deletion, if attempted.
+ * @returns The description of the action.
+ */
+function describeAction(
+  action: 'keep' | 'delete',
+  status: DeletionStatus | undefined
+): string {
+  if (status === 'failed') return 'delete (failed)'
+  if (status === 'pending') return 'delete (not attempted)'
+  return action
+}
+
+/**
+ * Checks if a version remains after the cleanup, i.e. if it is kept or its deletion did not succeed.
+ */
+function isRemaining(v: PlanVersion): boolean {
+  return v.action === 'keep' || (v.status != null && v.status !== 'deleted')
+}
+
+type TableRow = Array<string | { data: string; header?: boolean }>
+
+/**
+ * Renders a table to HTML in the format of `core.summary.addTable`.
+ *
+ * @param rows - The table rows.
+ * @returns The HTML of the table.
+ */
+function renderTable(rows: TableRow[]): string {
+  const html = rows.map(row => {
+    const cells = row.map(cell => {
+      const { data, header } =
+        typeof cell === 'string' ? { data: cell, header: false } : cell
+      const tag = header ? 'th' : 'td'
+      return `<${tag}>${data}</${tag}>`
+    })
+    return `<tr>${cells.join('')}</tr>`
+  })
+  return `<table>${html.join('')}</table>`
+}
+
+/**
+ * Adds the summary of a single package to the job summary.
+ *
+ * @param plan - The deletion plan of the package.
+ */
+function addPackageSummary(plan: PackagePlan): void {
+  core.summary.addHeading(`${plan.owner}/${plan.package}`, 3)
+
+  // Counts by artifact type. Deletions that did not succeed are only counted if there are any.
+  const counts = new Map<
+    PackageVersionType,
+    { keep: number; delete: number; failed: number }
+  >()
+  for (const v of plan.versions) {
+    const c = counts.get(v.type) ?? { keep: 0, delete: 0, failed: 0 }
+    if (v.action === 'delete' && isRemaining(v)) {
+      c.failed++
+    } else {
+      c[v.action]++
+    }
+    counts.set(v.type, c)
+  }
+  const failed = plan.versions.filter(
+    v => v.action === 'delete' && isRemaining(v)
+  )
+  core.summary.addTable([
+    [
+      { data: 'Type', header: true },
+      { data: 'Kept', header: true },
+      { data: 'Deleted', header: true },
+      ...(failed.length > 0 ? [{ data: 'Not deleted', header: true }] : [])
+    ],
+    ...Array.from(counts.entries()).map(([type, c]) => [
+      type,
+      `${c.keep}`,
+      `${c.delete}`,
+      ...(failed.length > 0 ? [`${c.failed}`] : [])
+    ])
+  ])
+
+  // Tags with the digest of the version they are attached to.
+  const tagDigests = new Map<string, string>()
+  for (const v of plan.versions) {
+    for (const t of v.tags) tagDigests.set(t, v.digest)
+  }
+  core.summary.addDetails(
+    `Tags (${plan.tags.delete.length} deleted, ${plan.tags.keep.length} kept)`,
+    renderTable([
+      [
+        { data: 'Tag', header: true },
+        { data: 'Digest', header: true },
+        { data: 'Action', header: true }
+      ],
+      ...plan.tags.delete.map(t => [
+        t,
+        tagDigests.get(t) ?? '',
+        describeAction('delete', plan.tags.status?.[t])
+      ]),
+      ...plan.tags.keep.map(t => [t, tagDigests.get(t) ?? '', 'keep'])
+    ])
+  )
+
+  // Versions, deleted ones first.
+  const deleted = plan.versions.filter(v => v.action === 'delete')
+  const kept = plan.versions.filter(v => v.action === 'keep')
+  core.summary.addDetails(
+    `Versions (${deleted.length - failed.length} deleted, ${kept.length} kept${failed.length > 0 ? `, ${failed.length} not deleted` : ''})`,
+    renderTable([
+      [
+        { data: 'Digest', header: true },
+        { data: 'Tags', header: true },
+        { data: 'Type', header: true },
+        { data: 'Action', header: true },
+        { data: 'Reason', header: true }
+      ],
+      ...[...deleted, ...kept].map(v => [
+        v.digest,
+        v.tags.join(', '),
+        v.type,
+        describeAction(v.action, v.status),
+        escapeHtml(v.reason)
+      ])
+    ])
+  )
+
+  // Version trees before and after the cleanup.
+  core.summary.addDetails(
+    'Before',
+    `<pre>${escapeHtml(renderPlanTree(plan.versions).join('\n'))}</pre>`
+  )
+  core.summary.addDetails(
+    'After',
+    `<pre>${escapeHtml(
+      renderPlanTree(plan.versions, isRemaining).join('\n')
+    )}</pre>`
+  )
+}
+
+/**
+ * Adds the summary of an action run to the job summary buffer.
+ *
+ * The buffer still needs to be written with `core.summary.write()`.
+ *
+ * @param plan - The deletion plan for all packages.
+ * @param failures - The error messages of packages whose cleanup failed, by package name.
+ */
+export function addSummary(
+  plan: Plan,
+  failures: Map<string, string> = new Map()
+): void {
+  core.summary.addHeading(
+    `Container Repository Cleanup${plan.dryRun ? ' (dry run)' : ''}`,
+    2
+  )
+
+  if (plan.packages.length === 0 && failures.size === 0) {
+    core.summary.addRaw('No packages cleaned up.', true)
+  }
+
+  if (failures.size > 0) {
+    core.summary.addHeading('Failures', 3)
+    core.summary.addList(
+      Array.from(failures.entries()).map(
+        ([name, error]) => `${name}: ${escapeHtml(error)}`
+      )
+    )
+  }
+
+  for (const p of plan.packages) {
+    addPackageSummary(p)
+  }
+}
@@ -1,4 +1,13 @@
-import { parseChallenge, isValidChallenge } from './utils'
+import {
+  parseChallenge,
+  isValidChallenge,
+  parseDuration,
+  splitList,
+  isPackagePattern,
+  packagePatternToRegExp,
+  getDefaultRegistryUrl,
+  mapWithConcurrency
+} from './utils'
 
 describe('parseChallenge', () => {
   it('should parse a valid challenge string', () => {
@@ -99,3 +108,152 @@ describe('isValidChallenge', () => {
     expect(isValidChallenge(attributes)).toBe(true)
   })
 })
+
+describe('parseDuration', () => {
+  it('should parse a duration in days', () => {
+    expect(parseDuration('30d')).toBe(30 * 24 * 60 * 60 * 1000)
+  })
+
+  it('should parse a duration in hours', () => {
+    expect(parseDuration('12h')).toBe(12 * 60 * 60 * 1000)
+  })
+
+  it('should parse a duration in weeks', () => {
+    expect(parseDuration('2w')).toBe(2 * 7 * 24 * 60 * 60 * 1000)
+  })
+
+  it('should parse a duration in minutes', () => {
+    expect(parseDuration('90m')).toBe(90 * 60 * 1000)
+  })
+
+  it('should parse combined durations', () => {
+    expect(parseDuration('1w3d')).toBe(10 * 24 * 60 * 60 * 1000)
+  })
+
+  it('should ignore surrounding whitespace and case', () => {
+    expect(parseDuration(' 2D ')).toBe(2 * 24 * 60 * 60 * 1000)
+  })
+
+  it('should throw for a missing unit', () => {
+    expect(() => parseDuration('30')).toThrow('invalid duration 30')
+  })
+
+  it('should throw for an unknown unit', () => {
+    expect(() => parseDuration('3y')).toThrow('invalid duration 3y')
+  })
+
+  it('should throw for an empty string', () => {
+    expect(() => parseDuration('')).toThrow('invalid duration')
+  })
+})
+
+describe('splitList', () => {
+  it('should split a comma separated list', () => {
+    expect(splitList('a,b, c')).toEqual(['a', 'b', 'c'])
+  })
+
+  it('should split a newline separated list', () => {
+    expect(splitList('a\nb\n\nc\n')).toEqual(['a', 'b', 'c'])
+  })
+
+  it('should return an empty array for an empty string', () => {
+    expect(splitList('')).toEqual([])
+  })
+})
+
+describe('isPackagePattern', () => {
+  it('should return false for a literal name', () => {
+    expect(isPackagePattern('service-a')).toBe(false)
+  })
+
+  it('should return true for a glob', () => {
+    expect(isPackagePattern('service-*')).toBe(true)
+    expect(isPackagePattern('service-?')).toBe(true)
+  })
+
+  it('should return true for a regular expression', () => {
+    expect(isPackagePattern('/^service-.+$/')).toBe(true)
+  })
+
+  it('should return false for a single slash', () => {
+    expect(isPackagePattern('/')).toBe(false)
+  })
+})
+
+describe('packagePatternToRegExp', () => {
+  it('should match a literal name exactly', () => {
+    const regex = packagePatternToRegExp('service.a')
+    expect(regex.test('service.a')).toBe(true)
+    expect(regex.test('serviceXa')).toBe(false)
+    expect(regex.test('service.a-2')).toBe(false)
+  })
+
+  it('should convert a glob', () => {
+    const regex = packagePatternToRegExp('service-*')
+    expect(regex.test('service-a')).toBe(true)
+    expect(regex.test('service-')).toBe(true)
+    expect(regex.test('my-service-a')).toBe(false)
+  })
+
+  it('should convert a single character wildcard', () => {
+    const regex = packagePatternToRegExp('service-?')
+    expect(regex.test('service-a')).toBe(true)
+    expect(regex.test('service-ab')).toBe(false)
+  })
+
+  it('should use a regular expression as is', () => {
+    const regex = packagePatternToRegExp('/service-\\d+/')
+    expect(regex.test('my-service-1')).toBe(true)
+    expect(regex.test('service-a')).toBe(false)
+  })
+})
+
+describe('getDefaultRegistryUrl', () => {
+  it('should default to ghcr.io', () => {
+    expect(getDefaultRegistryUrl()).toBe('https://ghcr.io/')
+    expect(getDefaultRegistryUrl('https://github.com')).toBe('https://ghcr.io/')
+  })
+
+  it('should use the containers subdomain for GitHub Enterprise Server', () => {
+    expect(getDefaultRegistryUrl('https://github.example.com')).toBe(
+      'https://containers.github.example.com/'
+    )
+  })
+})
+
+describe('mapWithConcurrency', () => {
+  it('should map items in order with bounded concurrency', async () => {
+    let running = 0
+    let maxRunning = 0
+    const result = await mapWithConcurrency(
+      [30, 10, 20, 0, 10],
+      2,
+      async (ms, index) => {
+        running++
+        maxRunning = Math.max(maxRunning, running)
+        await new Promise(resolve => setTimeout(resolve, ms))
+        running--
+        return `${index}:${ms}`
+      }
+    )
+
+    expect(result).toEqual(['0:30', '1:10', '2:20', '3:0', '4:10'])
+    expect(maxRunning).toBe(2)
+  })
+
+  it('should handle empty lists', async () => {
+    expect(await mapWithConcurrency([], 4, async x => x)).toEqual([])
+  })
+
+  it('should not start further calls after a failure', async () => {
+    const started: number[] = []
+    await expect(
+      mapWithConcurrency([1, 2, 3, 4], 1, async x => {
+        started.push(x)
+        if (x === 2) throw new Error('failed')
+        return x
+      })
+    ).rejects.toThrow('failed')
+    expect(started).toEqual([1, 2])
+  })
+})
@@ -1,3 +1,5 @@
+import crypto from 'crypto'
+
 /**
  * Parses a challenge string and returns a map of attributes.
  * @param challenge - The challenge string to parse.
@@ -37,3 +39,150 @@ export function isValidChallenge(attributes: Map<string, string>): boolean {
   }
   return valid
 }
+
+/**
+ * Multipliers in milliseconds for the supported duration units.
+ */
+const DURATION_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000
+}
+
+/**
+ * Parses a duration string like `30d`, `12h` or `2w` into milliseconds.
+ *
+ * Supported units are `m` (minutes), `h` (hours), `d` (days) and `w` (weeks).
+ * Multiple components may be combined, e.g. `1w3d`.
+ *
+ * @param duration - The duration string to parse.
+ * @returns The duration in milliseconds.
+ * @throws An error if the duration string is invalid.
+ */
+export function parseDuration(duration: string): number {
+  const value = duration.trim().toLowerCase()
+
+  if (!/^(\d+[mhdw])+$/.test(value)) {
+    throw new Error(`invalid duration ${duration}`)
+  }
+
+  let result = 0
+  for (const [, amount, unit] of value.matchAll(/(\d+)([mhdw])/g)) {
+    result += parseInt(amount) * DURATION_UNITS[unit]
+  }
+  return result
+}
+
+/**
+ * Splits a newline or comma separated list into its trimmed, non-empty items.
+ *
+ * @param value - The list to split.
+ * @returns The items of the list.
+ */
+export function splitList(value: string): string[] {
+  return value
+    .split(/[\n,]/)
+    .map(item => item.trim())
+    .filter(item => item.length > 0)
+}
+
+/**
+ * Checks if a package name is a pattern rather than a literal name.
+ *
+ * Patterns are either regular expressions enclosed in slashes, e.g. `/^service-.*$/`, or globs containing `*` or `?`.
+ *
+ * @param name - The package name or pattern.
+ * @returns True if the name is a pattern, false otherwise.
+ */
+export function isPackagePattern(name: string): boolean {
+  return (
+    (name.length > 1 && name.startsWith('/') && name.endsWith('/')) ||
+    /[*?]/.test(name)
+  )
+}
+
+/**
+ * Converts a package name pattern into a regular expression.
+ *
+ * Literal names and globs must match the entire package name, while regular expressions enclosed in slashes are
+ * used as is.
+ *
+ * @param pattern - The package name, glob, or regular expression.
+ * @returns The regular expression.
+ */
+export function packagePatternToRegExp(pattern: string): RegExp {
+  if (pattern.length > 1 && pattern.startsWith('/') && pattern.endsWith('/')) {
+    return new RegExp(pattern.substring(1, pattern.length - 1))
+  }
+
+  const escaped = pattern
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.')
+
+  return new RegExp(`^${escaped}$`)
+}
+
+/**
+ * Determines the URL of the container registry of a GitHub instance.
+ *
+ * GitHub Enterprise Server hosts its container registry on the `containers` subdomain.
+ *
+ * @param serverUrl - The URL of the GitHub instance, e.g. from `GITHUB_SERVER_URL`.
+ * @returns The base URL of the container registry, with a trailing slash.
+ */
+export function getDefaultRegistryUrl(serverUrl?: string): string {
+  if (!serverUrl) return 'https://ghcr.io/'
+
+  const url = new URL(serverUrl)
+  if (url.hostname === 'github.com') return 'https://ghcr.io/'
+
+  return `${url.protocol}//containers.${url.host}/`
+}
+
+/**
+ * Maps items with an asynchronous function, running at most the given number of calls at a time.
+ *
+ * No further calls are started once a call fails.
+ *
+ * @param items - The items to map.
+ * @param concurrency - The maximum number of concurrent calls.
+ * @param fn - The function to apply to each item.
+ * @returns A Promise that resolves to the results, in the order of the items.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length)
+  let next = 0
+  let failed = false
+
+  const worker = async (): Promise<void> => {
+    while (!failed && next < items.length) {
+      const index = next++
+      try {
+        results[index] = await fn(items[index], index)
+      } catch (error) {
+        failed = true
+        throw error
+      }
+    }
+  }
+
+  const workers = Math.min(Math.max(concurrency, 1), items.length)
+  await Promise.all(Array.from({ length: workers }, worker))
+  return results
+}
+
+/**
+ * Computes the digest of some content.
+ *
+ * @param content - The content.
+ * @returns The `sha256:` digest.
+ */
+export function sha256(content: string): string {
+  return `sha256:${crypto.createHash('sha256').update(content).digest('hex')}`
+}